@@ -24,16 +24,19 @@ import {
   buildInterestEmbeddingText,
   buildArticleEmbeddingText,
   getArticleIdsWithEmbeddings,
+  getActiveEmbeddingModel,
 } from '@/lib/embeddings';
 
 async function backfillInterests() {
   console.log('--- Backfilling interest embeddings ---');
 
+  // Embeddings from another model count as missing, so this also re-embeds after a provider switch
+  const model = await getActiveEmbeddingModel();
   const { rows: interests } = await sql`
     SELECT i.id, i.category, i.description
     FROM interests i
     WHERE NOT EXISTS (
-      SELECT 1 FROM embeddings e WHERE e.ref_type = 'interest' AND e.ref_id = i.id
+      SELECT 1 FROM embeddings e WHERE e.ref_type = 'interest' AND e.ref_id = i.id AND e.model = ${model}
     )
   `;
 
@@ -48,7 +51,7 @@ async function backfillInterests() {
   const { embeddings } = await generateEmbeddings(texts);
 
   for (let i = 0; i < interests.length; i++) {
-    await storeEmbedding('interest', interests[i].id, texts[i], embeddings[i]);
+    await storeEmbedding('interest', interests[i].id, texts[i], embeddings[i], model);
     console.log(`  Embedded: ${interests[i].category}`);
   }
 
@@ -58,11 +61,12 @@ async function backfillInterests() {
 async function backfillArticles() {
   console.log('\n--- Backfilling article embeddings ---');
 
+  const model = await getActiveEmbeddingModel();
   const { rows: articles } = await sql`
     SELECT a.id, a.title, a.raw_content
     FROM articles a
     WHERE NOT EXISTS (
-      SELECT 1 FROM embeddings e WHERE e.ref_type = 'article' AND e.ref_id = a.id
+      SELECT 1 FROM embeddings e WHERE e.ref_type = 'article' AND e.ref_id = a.id AND e.model = ${model}
     )
     ORDER BY a.ingested_at DESC
   `;
@@ -84,7 +88,7 @@ async function backfillArticles() {
     const { embeddings } = await generateEmbeddings(texts);
 
     for (let j = 0; j < batch.length; j++) {
-      await storeEmbedding('article', batch[j].id, texts[j], embeddings[j]);
+      await storeEmbedding('article', batch[j].id, texts[j], embeddings[j], model);
       embedded++;
     }
 
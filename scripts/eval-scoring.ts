@@ -0,0 +1,116 @@
+/**
+ * Offline scoring evaluation: replays a frozen fixture through the embedding pre-filter, LLM
+ * scoring (stubbed — recorded scores are replayed, nothing is sent) and digest assembly, then
+ * reports precision/recall of liked articles in the digest, tier placement and estimated cost.
+ * No database or API access is needed. Threshold flags override the fixture's settings, so
+ * a change can be compared against the baseline before it ships. Prompt changes show up in
+ * the token and cost estimates.
+ *
+ * Usage:
+ *   npx tsx scripts/eval-scoring.ts [--fixture=path.json] [--llm-threshold=0.3] [--max-llm-candidates=20]
+ *     [--serendipity-min=0.1] [--serendipity-max=0.3] [--serendipity-sample=5] [--exclusion-threshold=0.4]
+ *     [--min-score=0.5] [--seed=1] [--verbose] [--json]
+ *
+ * Create a fixture from a live database with scripts/export-eval-fixture.ts. The bundled
+ * sample (scripts/fixtures/eval-sample.json) uses the offline hashing embedder.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+import 'tsconfig-paths/register';
+import { evaluateFixture } from '@/lib/relevance/evaluation';
+import type { EvalFixture } from '@/lib/relevance/evaluation';
+import type { EmbeddingThresholds } from '@/lib/relevance/selection';
+
+function arg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+}
+
+function numArg(name: string): number | undefined {
+  const value = arg(name);
+  return value !== undefined ? parseFloat(value) : undefined;
+}
+
+const FIXTURE_PATH = resolve(process.cwd(), arg('fixture') ?? 'scripts/fixtures/eval-sample.json');
+const JSON_OUTPUT = process.argv.includes('--json');
+const VERBOSE = process.argv.includes('--verbose');
+
+const THRESHOLD_FLAGS: Record<string, keyof EmbeddingThresholds> = {
+  'llm-threshold': 'llmThreshold',
+  'max-llm-candidates': 'maxLlmCandidates',
+  'serendipity-min': 'serendipityMin',
+  'serendipity-max': 'serendipityMax',
+  'serendipity-sample': 'serendipitySampleSize',
+  'primary-weight': 'blendedPrimaryWeight',
+  'secondary-weight': 'blendedSecondaryWeight',
+};
+
+const pct = (n: number | null) => (n === null ? 'n/a' : `${(n * 100).toFixed(1)}%`);
+
+async function main() {
+  const fixture = JSON.parse(readFileSync(FIXTURE_PATH, 'utf-8')) as EvalFixture;
+
+  const thresholds: Partial<EmbeddingThresholds> = {};
+  for (const [flag, key] of Object.entries(THRESHOLD_FLAGS)) {
+    const value = numArg(flag);
+    if (value !== undefined) thresholds[key] = value;
+  }
+
+  const report = await evaluateFixture(fixture, {
+    thresholds,
+    exclusionThreshold: numArg('exclusion-threshold'),
+    minScore: numArg('min-score'),
+    seed: numArg('seed'),
+  });
+
+  if (JSON_OUTPUT) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`Fixture: ${FIXTURE_PATH} (model ${fixture.model}${fixture.captured_at ? `, captured ${fixture.captured_at}` : ''})`);
+  console.log(`Articles: ${report.articles} (${report.liked} liked, ${report.skipped} skipped)`);
+  console.log(`Thresholds: ${JSON.stringify(report.thresholds)}, min score ${report.min_score}`);
+  console.log();
+
+  console.log('Stage 1 (embeddings)');
+  console.log(`  Embedded: ${report.stage1.embedded}`);
+  console.log(`  Above LLM threshold: ${report.stage1.above_threshold}`);
+  console.log(`  LLM candidates: ${report.stage1.llm_candidates} + ${report.stage1.serendipity_candidates} serendipity`);
+  console.log();
+
+  console.log('Stage 2 (stubbed LLM)');
+  console.log(`  Batches: ${report.llm.batches}`);
+  console.log(`  Replayed scores: ${report.llm.recorded}, no recording (embedding score used): ${report.llm.unrecorded}`);
+  console.log(`  Est. tokens: ${report.llm.prompt_tokens.toLocaleString()} in / ${report.llm.completion_tokens.toLocaleString()} out`);
+  console.log(`  Est. cost: $${report.llm.estimated_cost.toFixed(4)}`);
+  console.log();
+
+  console.log('Tier placement');
+  console.log(`  ${'tier'.padEnd(12)} ${'total'.padStart(6)} ${'liked'.padStart(6)} ${'skipped'.padStart(8)}`);
+  for (const [tier, stats] of Object.entries(report.tiers)) {
+    console.log(`  ${tier.padEnd(12)} ${String(stats.total).padStart(6)} ${String(stats.liked).padStart(6)} ${String(stats.skipped).padStart(8)}`);
+  }
+  console.log();
+
+  console.log(`Precision (liked / rated in digest): ${pct(report.precision)}`);
+  console.log(`Recall (liked in digest / all liked): ${pct(report.recall)}`);
+  console.log(`F1: ${pct(report.f1)}`);
+
+  if (VERBOSE) {
+    console.log();
+    console.log('Articles');
+    for (const r of [...report.results].sort((a, b) => b.relevance_score - a.relevance_score)) {
+      const emb = r.embedding_score === null ? '   -  ' : r.embedding_score.toFixed(3).padStart(6);
+      console.log(
+        `  ${r.relevance_score.toFixed(2)}  emb ${emb}  ${r.tier.padEnd(11)} ${r.stage2.padEnd(10)} ${(r.sentiment ?? '-').padEnd(7)} ${r.title.slice(0, 70)}`
+      );
+    }
+  }
+}
+
+main().catch(err => {
+  console.error('Evaluation failed:', err);
+  process.exit(1);
+});
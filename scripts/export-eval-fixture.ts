@@ -0,0 +1,151 @@
+/**
+ * Freezes one user's recent scoring data into a fixture for scripts/eval-scoring.ts: interests
+ * and exclusions with their vectors, learned preferences, source trust, feedback offsets, and
+ * the scored articles with vectors, the LLM's recorded score and the user's sentiment.
+ * Only articles that still have a vector from the active embedding model are exported (article
+ * vectors are pruned after 7 days).
+ *
+ * Usage:
+ *   npx tsx scripts/export-eval-fixture.ts [--user=<username>] [--days=7] [--out=scripts/fixtures/eval-<username>.json]
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+const envPath = resolve(process.cwd(), '.env.local');
+if (existsSync(envPath)) {
+  process.loadEnvFile(envPath);
+}
+
+import 'tsconfig-paths/register';
+import { sql } from '@vercel/postgres';
+import { getDb } from '@/lib/db/index';
+import { config } from '@/lib/config';
+import { getUserByUsername } from '@/lib/db/users';
+import { getActiveInterestsByUserId } from '@/lib/db/interests';
+import { getExclusionsByUserId } from '@/lib/db/exclusions';
+import { getPreferencesByUserId } from '@/lib/db/preferences';
+import { getSourceTrustFactors } from '@/lib/db/source-trust';
+import { getGlobalSetting } from '@/lib/db/settings';
+import { getInterestFeedbackOffsets } from '@/lib/db/interest-feedback';
+import { getEmbeddingsByType, getActiveEmbeddingModel } from '@/lib/embeddings';
+import { getThresholds, getBonusSettings } from '@/lib/relevance';
+import type { EvalFixture } from '@/lib/relevance/evaluation';
+import type { Sentiment } from '@/types';
+
+const usernameArg = process.argv.find(a => a.startsWith('--user='))?.split('=')[1];
+const daysArg = process.argv.find(a => a.startsWith('--days='))?.split('=')[1];
+const outArg = process.argv.find(a => a.startsWith('--out='))?.split('=')[1];
+const DAYS = daysArg ? parseInt(daysArg, 10) : 7;
+
+// Reasons written by the pipeline itself rather than the LLM
+const NON_LLM_REASON = /^(Embedding score|Default score)/;
+
+async function main() {
+  await getDb();
+
+  let user = usernameArg ? await getUserByUsername(usernameArg) : null;
+  if (!user && !usernameArg) {
+    const { rows } = await sql`SELECT username FROM users WHERE is_admin = TRUE ORDER BY created_at LIMIT 1`;
+    user = rows[0] ? await getUserByUsername(rows[0].username) : null;
+  }
+  if (!user) {
+    console.error(`User not found: ${usernameArg ?? '(first admin)'}`);
+    process.exit(1);
+  }
+
+  const model = await getActiveEmbeddingModel();
+  console.log(`Exporting ${user.username} (last ${DAYS} days, model ${model})`);
+
+  const [interests, exclusions, preferences, trust, offsets, thresholds, bonus, exclusionSetting] = await Promise.all([
+    getActiveInterestsByUserId(user.id),
+    getExclusionsByUserId(user.id),
+    getPreferencesByUserId(user.id),
+    getSourceTrustFactors(user.id),
+    getInterestFeedbackOffsets(user.id, model),
+    getThresholds(),
+    getBonusSettings(),
+    getGlobalSetting('exclusion_penalty_threshold'),
+  ]);
+
+  const { rows: articleRows } = await sql`
+    SELECT a.id, a.source_id, s.name AS source_name, s.type AS source_type, a.title, a.url, a.raw_content,
+           a.published_at, a.cluster_id, ua.sentiment, ua.relevance_score, ua.relevance_reason, ua.is_serendipity
+    FROM user_articles ua
+    JOIN articles a ON a.id = ua.article_id
+    JOIN sources s ON s.id = a.source_id
+    WHERE ua.user_id = ${user.id}
+      AND ua.scored_at > NOW() - INTERVAL '1 day' * ${DAYS}
+      AND ua.relevance_score IS NOT NULL
+    ORDER BY ua.scored_at
+  `;
+
+  const [interestEmbeddings, exclusionEmbeddings, articleEmbeddings] = await Promise.all([
+    getEmbeddingsByType('interest', interests.map(i => i.id), model),
+    getEmbeddingsByType('exclusion', exclusions.map(e => e.id), model),
+    getEmbeddingsByType('article', articleRows.map(r => r.id), model),
+  ]);
+
+  const fixture: EvalFixture = {
+    model,
+    captured_at: new Date().toISOString(),
+    min_relevance_score: config.minRelevanceScore,
+    thresholds,
+    exclusion_threshold: exclusionSetting ? parseFloat(exclusionSetting) : undefined,
+    bonus,
+    interests: interests.map(i => ({
+      id: i.id,
+      category: i.category,
+      description: i.description,
+      expanded_description: i.expanded_description,
+      weight: i.weight,
+      embedding: interestEmbeddings.get(i.id),
+      feedback_offset: offsets.get(i.id),
+    })),
+    exclusions: exclusions.map(e => ({
+      id: e.id,
+      category: e.category,
+      description: e.description,
+      expanded_description: e.expanded_description,
+      embedding: exclusionEmbeddings.get(e.id),
+    })),
+    preferences: preferences.map(p => ({ preference_text: p.preference_text, confidence: p.confidence })),
+    source_trust: Object.fromEntries(trust),
+    articles: articleRows
+      .filter(r => articleEmbeddings.has(r.id))
+      .map(r => ({
+        id: r.id,
+        source_id: r.source_id,
+        source_name: r.source_name,
+        title: r.title,
+        url: r.url,
+        raw_content: r.raw_content,
+        published_at: r.published_at ? new Date(r.published_at).toISOString() : null,
+        cluster_id: r.cluster_id,
+        manual: r.source_type === 'manual_url' || undefined,
+        embedding: articleEmbeddings.get(r.id),
+        sentiment: (r.sentiment as Sentiment | null) ?? null,
+        recorded: r.relevance_reason && !NON_LLM_REASON.test(r.relevance_reason)
+          ? { relevance_score: Number(r.relevance_score), relevance_reason: r.relevance_reason, is_serendipity: !!r.is_serendipity }
+          : undefined,
+      })),
+  };
+
+  const skipped = articleRows.length - fixture.articles.length;
+  const outPath = resolve(process.cwd(), outArg ?? `scripts/fixtures/eval-${user.username}.json`);
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(outPath, JSON.stringify(fixture));
+
+  const liked = fixture.articles.filter(a => a.sentiment === 'liked').length;
+  const recordedCount = fixture.articles.filter(a => a.recorded).length;
+  console.log(`Wrote ${outPath}`);
+  console.log(`  ${fixture.articles.length} articles (${liked} liked, ${recordedCount} with recorded LLM scores), ${skipped} skipped without a vector`);
+  console.log(`  ${fixture.interests.length} interests, ${fixture.exclusions.length} exclusions, ${offsets.size} feedback offsets`);
+
+  process.exit(0);
+}
+
+main().catch(err => {
+  console.error('Export failed:', err);
+  process.exit(1);
+});
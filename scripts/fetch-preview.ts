@@ -77,7 +77,7 @@ interface InterestInfo {
   hadExistingEmbedding: boolean;
 }
 
-// ── Semantic dedup (same logic as ingestion pipeline) ──
+// ── Semantic dedup (within-batch approximation of ingestion story clustering) ──
 
 const SEMANTIC_DEDUP_THRESHOLD = 0.85;
 
@@ -141,7 +141,7 @@ async function main() {
     const url = source.config.url as string;
     process.stdout.write(`  ${source.name} ... `);
     try {
-      const articles = await fetchRssFeed(source.id, url, source.max_items);
+      const { articles } = await fetchRssFeed(source.id, url, source.max_items);
       for (const a of articles) {
         allRawArticles.push({ ...a, sourceName: source.name });
       }
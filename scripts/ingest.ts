@@ -9,12 +9,11 @@ if (existsSync(envPath)) {
 
 import 'tsconfig-paths/register';
 import { seedDatabase } from '@/lib/db/seed';
-import { getDefaultUser } from '@/lib/db/users';
+import { getAllActiveUsers } from '@/lib/db/users';
 import { markStaleLogsAsTimedOut } from '@/lib/db/ingestion-logs';
-import { runIngestion } from '@/lib/ingestion';
-import { runRelevanceForAllUsers } from '@/lib/relevance';
 import { getActiveProvider } from '@/lib/llm';
-import { IngestionLogger } from '@/lib/ingestion/logger';
+import { advancePipeline } from '@/lib/pipeline';
+import { claimScheduledDigests } from '@/lib/relevance/schedule';
 
 async function main() {
   // Ensure DB is seeded (idempotent)
@@ -26,61 +25,35 @@ async function main() {
     console.log(`Marked ${staleCount} stale running log(s) as timed out`);
   }
 
-  const user = await getDefaultUser();
-  if (!user) throw new Error('No user found');
+  const users = await getAllActiveUsers();
+  if (users.length === 0) throw new Error('No user found');
 
   const provider = await getActiveProvider();
-
-  const logger = new IngestionLogger(user.id, provider, 'cron');
-  await logger.init();
-
-  logger.log('setup', `Ingestion started (provider: ${provider})`);
+  // Everyone is scored; digests only for users whose scheduled time has arrived
+  const digestUsers = await claimScheduledDigests(new Date(), users);
 
   try {
-    const ingestionResult = await runIngestion(provider, logger);
+    // No time budget: work the queue until it is empty. If a run is already in progress
+    // (web cron, scheduler, manual trigger) this joins it and helps finish it.
+    const slice = await advancePipeline({
+      trigger: 'cron',
+      triggeredBy: null,
+      provider,
+      users,
+      digestUsers,
+      // --force fetches every source, ignoring the adaptive per-source schedule
+      force: process.argv.includes('--force'),
+    });
 
-    let allResults: Record<string, unknown> = {};
-    if (ingestionResult.newArticles > 0) {
-      allResults = await runRelevanceForAllUsers(provider, logger);
+    if (slice.done) {
+      console.log('Ingestion complete:', JSON.stringify(slice.summary, null, 2));
     } else {
-      logger.log('relevance', 'Skipping relevance engine: no new articles');
+      // The remaining jobs are leased by another invocation that is still working on them
+      console.log(`Run ${slice.run.id} is being advanced elsewhere (${slice.progress.done + slice.progress.failed}/${slice.progress.total} jobs complete); exiting`);
     }
-
-    const summary = {
-      totalFetched: ingestionResult.totalFetched,
-      newArticles: ingestionResult.newArticles,
-      duplicates: ingestionResult.duplicates,
-      articlesEmbedded: ingestionResult.articlesEmbedded,
-      embeddingTokens: ingestionResult.embeddingTokens,
-      errorCount: ingestionResult.errors.length,
-      userResults: allResults,
-    };
-
-    logger.log('complete', 'Pipeline finished', summary);
-    await logger.persist('success', summary);
-
-    // Run retention cleanup (non-blocking — failure doesn't break pipeline)
-    try {
-      const { runRetention } = await import('@/lib/db/retention');
-      const retention = await runRetention();
-      const totalCleaned = Object.values(retention).reduce((a, b) => a + b, 0);
-      logger.log('retention', `Retention cleanup: ${totalCleaned} rows removed`, retention as unknown as Record<string, unknown>);
-      console.log('Retention cleanup:', totalCleaned > 0 ? JSON.stringify(retention) : '0 rows (nothing old enough)');
-    } catch (retentionErr) {
-      console.warn('Retention cleanup failed (non-fatal):', retentionErr);
-    }
-
-    console.log('Ingestion complete:', JSON.stringify(summary, null, 2));
     process.exit(0);
   } catch (error) {
     console.error('Ingestion error:', error);
-
-    logger.error('pipeline', 'Pipeline failed', {
-      error: String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    await logger.persist('error', {}, String(error));
-
     process.exit(1);
   }
 }
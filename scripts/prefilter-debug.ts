@@ -20,7 +20,7 @@ import 'tsconfig-paths/register';
 import { sql } from '@vercel/postgres';
 import { getEnabledSourcesForUser } from '@/lib/db/sources';
 import { getUnscoredArticlesForUser } from '@/lib/db/user-articles';
-import { prefilterArticles } from '@/lib/relevance/prefilter';
+import { prefilterArticles, aggregatorPointsFloors } from '@/lib/relevance/prefilter';
 import type { Article } from '@/types';
 
 async function main() {
@@ -70,7 +70,7 @@ async function main() {
 
   // Run prefilter
   const userCreatedAt = user.created_at ? new Date(user.created_at) : undefined;
-  const { kept, removed } = prefilterArticles(asArticles, { userCreatedAt });
+  const { kept, removed } = prefilterArticles(asArticles, { userCreatedAt, minPointsBySource: aggregatorPointsFloors(sources) });
 
   // Summary by reason
   const reasonCounts: Record<string, number> = {};
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies } from '@/lib/auth';
+import { setFeedToken } from '@/lib/db/users';
+import { generateFeedToken } from '@/lib/delivery/atom';
+
+// Create or rotate the digest feed token; the old feed URL stops working immediately
+export async function POST() {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const feedToken = generateFeedToken();
+    await setFeedToken(userId, feedToken);
+    return NextResponse.json({ feed_token: feedToken });
+  } catch (error) {
+    console.error('Rotate feed token error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Turn the digest feed off
+export async function DELETE() {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    await setFeedToken(userId, null);
+    return NextResponse.json({ feed_token: null });
+  } catch (error) {
+    console.error('Disable feed token error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
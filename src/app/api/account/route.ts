@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import { getSessionFromCookies } from '@/lib/auth';
-import { getUserById, updateUser } from '@/lib/db/users';
+import { getUserById, updateUser, toSafeUser } from '@/lib/db/users';
 
 export async function GET() {
   try {
@@ -11,8 +11,8 @@ export async function GET() {
     const user = await getUserById(userId);
     if (!user) return NextResponse.json({ error: 'Not found' }, { status: 404 });
 
-    const { password_hash, ...safeUser } = user;
-    return NextResponse.json(safeUser);
+    // The user's own feed token, so Settings > Account can show their feed URL
+    return NextResponse.json(toSafeUser(user, { includeFeedToken: true }));
   } catch (error) {
     console.error('Account error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -59,8 +59,7 @@ export async function PUT(request: Request) {
     const user = await updateUser(userId, updates);
     if (!user) return NextResponse.json({ error: 'Update failed' }, { status: 500 });
 
-    const { password_hash, ...safeUser } = user;
-    return NextResponse.json(safeUser);
+    return NextResponse.json(toSafeUser(user, { includeFeedToken: true }));
   } catch (error) {
     console.error('Account update error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
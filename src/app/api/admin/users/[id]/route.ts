@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getSessionFromCookies, requireAdmin } from '@/lib/auth';
-import { updateUser, getUserById, deleteUser } from '@/lib/db/users';
+import { updateUser, getUserById, deleteUser, toSafeUser } from '@/lib/db/users';
 
 export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -29,8 +29,7 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
     const user = await updateUser(id, updates);
     if (!user) return NextResponse.json({ error: 'Update failed' }, { status: 500 });
 
-    const { password_hash, ...safeUser } = user;
-    return NextResponse.json(safeUser);
+    return NextResponse.json(toSafeUser(user));
   } catch (error) {
     console.error('Admin user update error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
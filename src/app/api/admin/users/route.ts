@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getSessionFromCookies, requireAdmin } from '@/lib/auth';
-import { getAllUsers } from '@/lib/db/users';
+import { getAllUsers, toSafeUser } from '@/lib/db/users';
 
 export async function GET() {
   try {
@@ -11,9 +11,7 @@ export async function GET() {
     if (!isAdmin) return NextResponse.json({ error: 'Admin only' }, { status: 403 });
 
     const users = await getAllUsers();
-    // Strip password hashes
-    const safeUsers = users.map(({ password_hash, ...rest }) => rest);
-    return NextResponse.json(safeUsers);
+    return NextResponse.json(users.map(u => toSafeUser(u)));
   } catch (error) {
     console.error('Admin users error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
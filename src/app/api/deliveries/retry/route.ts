@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { requireCronOrAuth } from '@/lib/auth';
+import { retryDueDeliveries } from '@/lib/delivery';
+
+// Cron hook for retrying failed digest pushes between pipeline runs
+export async function POST(request: Request) {
+  try {
+    if (await requireCronOrAuth(request) !== 'all_users') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await retryDueDeliveries();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Delivery retry error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,11 @@
 import { NextResponse } from 'next/server';
-import { getSessionFromCookies } from '@/lib/auth';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { getDigestById } from '@/lib/db/digests';
 import { getDigestCompletionStats } from '@/lib/db/user-articles';
 
-export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'digests:read');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
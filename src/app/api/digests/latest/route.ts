@@ -1,11 +1,11 @@
 import { NextResponse } from 'next/server';
-import { getSessionFromCookies } from '@/lib/auth';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { getLatestDigest } from '@/lib/db/digests';
 import { getUserArticlesByDigestId } from '@/lib/db/user-articles';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'digests:read');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -1,10 +1,10 @@
 import { NextResponse } from 'next/server';
-import { getSessionFromCookies } from '@/lib/auth';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { getRecentDigests } from '@/lib/db/digests';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'digests:read');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getSessionFromCookies } from '@/lib/auth';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { logFeedbackEvent } from '@/lib/db/feedback';
 import {
   getUserArticleByArticleId,
@@ -9,11 +9,27 @@ import {
   archiveUserArticle,
   unarchiveUserArticle,
 } from '@/lib/db/user-articles';
-import type { FeedbackAction, Sentiment } from '@/types';
+import { applySentimentFeedback } from '@/lib/relevance/feedback-vectors';
+import type { FeedbackAction, ScoreBreakdown, Sentiment } from '@/types';
 
 const VALID_ACTIONS: FeedbackAction[] = ['liked', 'skipped', 'read', 'bookmark', 'unbookmark', 'archived', 'unarchived'];
 const SENTIMENTS: Sentiment[] = ['liked', 'skipped'];
 
+// Nudge the matched interest's vector toward liked articles and away from skipped ones
+async function learnFromSentiment(
+  userId: string,
+  articleId: string,
+  breakdown: ScoreBreakdown | null,
+  previous: Sentiment | null,
+  next: Sentiment | null
+) {
+  try {
+    await applySentimentFeedback(userId, articleId, breakdown, previous, next);
+  } catch (e) {
+    console.warn('Failed to update interest feedback vector:', e);
+  }
+}
+
 async function logEvent(userId: string, articleId: string, action: FeedbackAction) {
   try {
     await logFeedbackEvent(userId, articleId, action);
@@ -24,7 +40,7 @@ async function logEvent(userId: string, articleId: string, action: FeedbackActio
 
 export async function POST(request: Request) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'feedback:write');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -47,6 +63,7 @@ export async function POST(request: Request) {
       const newSentiment = userArticle.sentiment === sentiment ? null : sentiment;
       const state = await updateUserArticleSentiment(userId, articleId, newSentiment);
       await logEvent(userId, articleId, action);
+      await learnFromSentiment(userId, articleId, userArticle.score_breakdown, userArticle.sentiment, newSentiment);
       return NextResponse.json({ success: true, ...state });
     }
 
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getUserByFeedToken } from '@/lib/db/users';
+import { getRecentDigests } from '@/lib/db/digests';
+import { getUserArticlesByDigestId } from '@/lib/db/user-articles';
+import { buildDigestAtom } from '@/lib/delivery/atom';
+import { config } from '@/lib/config';
+
+const FEED_DIGEST_LIMIT = 10;
+
+// Read-only Atom feed of the user's recent digests. The token in the URL is the only auth,
+// so feed readers can poll it without a session.
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token: segment } = await params;
+    const token = segment.replace(/\.xml$/, '');
+    const user = token ? await getUserByFeedToken(token) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const digests = await getRecentDigests(user.id, FEED_DIGEST_LIMIT);
+    const feedDigests = [];
+    for (const digest of digests) {
+      // Include archived rows so entries don't vanish from the feed after reading them in the app
+      const articles = await getUserArticlesByDigestId(user.id, digest.id, true, ['recommended', 'serendipity']);
+      feedDigests.push({ digest, articles });
+    }
+
+    const selfUrl = config.appUrl ? `${config.appUrl}/api/feeds/${token}.xml` : request.url;
+    const xml = buildDigestAtom(user, selfUrl, feedDigests);
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Digest feed error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies } from '@/lib/auth';
+import { getIngestionLogEventsSince } from '@/lib/db/ingestion-logs';
+
+export const maxDuration = 300; // 5 minute timeout
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15_000;
+// Close before the platform does; EventSource reconnects with Last-Event-ID and carries on
+const STREAM_MAX_MS = 280_000;
+
+// Server-Sent Events for a log as the pipeline writes it:
+//   event: log     — one LogEvent per message; the id is its position, so reconnects resume after it
+//   event: status  — status/summary/error whenever they change
+//   event: done    — the log finished; the stream closes
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    // Resume after the last event the browser saw, or from ?since= (events it already has)
+    const lastEventId = request.headers.get('last-event-id');
+    const since = lastEventId !== null
+      ? Number(lastEventId) + 1
+      : Number(new URL(request.url).searchParams.get('since') ?? 0);
+    let offset = Number.isFinite(since) && since > 0 ? Math.floor(since) : 0;
+
+    const first = await getIngestionLogEventsSince(id, offset);
+    if (!first) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+        const startedAt = Date.now();
+        let lastSent = Date.now();
+        let lastStatus = '';
+        let tail: typeof first | null = first;
+
+        send(`retry: ${POLL_INTERVAL_MS}\n\n`);
+        try {
+          while (tail && !request.signal.aborted) {
+            for (const event of tail.events) {
+              send(`id: ${offset}\nevent: log\ndata: ${JSON.stringify(event)}\n\n`);
+              offset++;
+              lastSent = Date.now();
+            }
+            offset = Math.max(offset, tail.event_count);
+
+            const status = JSON.stringify({ status: tail.status, summary: tail.summary, error: tail.error, duration_ms: tail.duration_ms });
+            if (status !== lastStatus) {
+              send(`event: status\ndata: ${status}\n\n`);
+              lastStatus = status;
+              lastSent = Date.now();
+            }
+
+            if (tail.status !== 'running') {
+              send(`event: done\ndata: ${JSON.stringify({ status: tail.status })}\n\n`);
+              break;
+            }
+            if (Date.now() - startedAt > STREAM_MAX_MS) break;
+            if (Date.now() - lastSent > KEEPALIVE_INTERVAL_MS) {
+              send(': keepalive\n\n');
+              lastSent = Date.now();
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+            tail = await getIngestionLogEventsSince(id, offset);
+          }
+        } catch (error) {
+          console.error('Ingestion log stream error:', error);
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Ingestion log stream error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies, requireCronOrAuth } from '@/lib/auth';
+import { getIngestionRunById } from '@/lib/db/ingestion-runs';
+import { getPipelineJobs } from '@/lib/db/pipeline-jobs';
+import { summarizeJobProgress } from '@/lib/pipeline';
+
+// Poll a pipeline run and its job queue, e.g. the run_id handed back by a trigger that didn't finish it
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const isCron = await requireCronOrAuth(request) === 'all_users';
+    if (!isCron && !(await getSessionFromCookies())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const run = await getIngestionRunById(id);
+    if (!run) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const progress = summarizeJobProgress(await getPipelineJobs(run.id));
+    return NextResponse.json({ ...run, progress });
+  } catch (error) {
+    console.error('Ingestion run status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
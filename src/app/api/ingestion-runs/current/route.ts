@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies, requireCronOrAuth } from '@/lib/auth';
+import { getRunningIngestionRun } from '@/lib/db/ingestion-runs';
+
+// The active pipeline run, if any
+export async function GET(request: Request) {
+  try {
+    const isCron = await requireCronOrAuth(request) === 'all_users';
+    if (!isCron && !(await getSessionFromCookies())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const run = await getRunningIngestionRun();
+    return NextResponse.json({ running: run !== null, run });
+  } catch (error) {
+    console.error('Current ingestion run error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
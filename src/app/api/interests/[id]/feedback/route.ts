@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies } from '@/lib/auth';
+import { getInterestById } from '@/lib/db/interests';
+import { deleteInterestFeedbackVector } from '@/lib/db/interest-feedback';
+
+// Reset what likes/skips have taught this interest; scoring goes back to its description alone
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Ownership check
+    const existing = await getInterestById(id);
+    if (!existing || existing.user_id !== userId) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const reset = await deleteInterestFeedbackVector(id);
+    return NextResponse.json({ success: true, reset });
+  } catch (error) {
+    console.error('Reset interest feedback error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
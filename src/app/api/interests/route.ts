@@ -4,6 +4,7 @@ import { getInterestsByUserId, createInterest, updateInterest } from '@/lib/db/i
 import { generateEmbedding, storeEmbedding, buildInterestEmbeddingText } from '@/lib/embeddings';
 import { expandInterestDescription } from '@/lib/interest-expansion';
 import { getGlobalSetting } from '@/lib/db/settings';
+import { getInterestFeedbackVectorsByUserId } from '@/lib/db/interest-feedback';
 
 export async function GET() {
   try {
@@ -12,8 +13,13 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const interests = await getInterestsByUserId(userId);
-    return NextResponse.json(interests);
+    const [interests, feedbackVectors] = await Promise.all([
+      getInterestsByUserId(userId),
+      getInterestFeedbackVectorsByUserId(userId),
+    ]);
+    // How many likes/skips have tuned each interest's vector (null = untouched)
+    const feedback = new Map(feedbackVectors.map(v => [v.interest_id, { liked: v.liked_count, skipped: v.skipped_count }]));
+    return NextResponse.json(interests.map(i => ({ ...i, feedback: feedback.get(i.id) ?? null })));
   } catch (error) {
     console.error('Interests error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -21,7 +21,7 @@ export async function GET() {
     const [interestRes, exclusionRes, sourceRes] = await Promise.all([
       sql`SELECT COUNT(*) as count FROM interests WHERE user_id = ${userId} AND active = TRUE`,
       sql`SELECT COUNT(*) as count FROM exclusions WHERE user_id = ${userId}`,
-      sql`SELECT COUNT(*) as count FROM sources WHERE user_id = ${userId} AND is_default = FALSE AND enabled = TRUE`,
+      sql`SELECT COUNT(*) as count FROM sources WHERE user_id = ${userId} AND is_default = FALSE AND enabled = TRUE AND type <> 'manual_url'`,
     ]);
 
     return NextResponse.json({
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { requireCronOrAuth } from '@/lib/auth';
+import { seedDatabase } from '@/lib/db/seed';
+import { getRunningIngestionRun } from '@/lib/db/ingestion-runs';
+import { getSourcesForRun } from '@/lib/ingestion';
+import { claimScheduledDigests } from '@/lib/relevance/schedule';
+import { getActiveProvider } from '@/lib/llm';
+import { advancePipeline } from '@/lib/pipeline';
+
+export const maxDuration = 300; // 5 minute timeout
+
+// Leave headroom under maxDuration for the final checkpoint and response
+const SLICE_BUDGET_MS = 240_000;
+
+// Frequent cron tick (e.g. every 15 minutes). Fetching and digest assembly are separate:
+// every tick fetches whichever sources are due, but a user only gets a digest once one of
+// their digest_times (in their timezone) has passed since their last digest. Each tick also
+// advances an unfinished pipeline run.
+export async function GET(request: Request) {
+  return handleTick(request);
+}
+
+export async function POST(request: Request) {
+  return handleTick(request);
+}
+
+async function handleTick(request: Request) {
+  try {
+    if (await requireCronOrAuth(request) !== 'all_users') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await seedDatabase();
+    const provider = await getActiveProvider();
+
+    // Assemble digests only for users whose scheduled time has arrived
+    const dueUsers = await claimScheduledDigests();
+
+    // Idle ticks don't start a run, so they don't flood the Logs tab
+    if (dueUsers.length === 0 && !(await getRunningIngestionRun())) {
+      const { sources } = await getSourcesForRun(false);
+      if (sources.length === 0) {
+        return NextResponse.json({ success: true, idle: true });
+      }
+    }
+
+    const slice = await advancePipeline({
+      trigger: 'scheduler',
+      triggeredBy: null,
+      provider,
+      users: dueUsers,
+      digestUsers: dueUsers,
+      budgetMs: SLICE_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      run_id: slice.run.id,
+      provider,
+      dueUsers: dueUsers.length,
+      done: slice.done,
+      progress: slice.progress,
+    });
+  } catch (error) {
+    console.error('Scheduler error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies } from '@/lib/auth';
+import { getDeliveryChannels, setDeliveryChannels } from '@/lib/delivery';
+import { generateWebhookSecret } from '@/lib/delivery/webhook';
+import { isSmtpConfigured } from '@/lib/delivery/smtp';
+import { assertPublicUrl } from '@/lib/utils/network';
+import { getRecentDeliveries } from '@/lib/db/deliveries';
+import type { DeliveryChannels } from '@/types';
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export async function GET() {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const [channels, deliveries] = await Promise.all([
+      getDeliveryChannels(userId),
+      getRecentDeliveries(userId),
+    ]);
+    return NextResponse.json({ channels, deliveries, smtp_configured: isSmtpConfigured() });
+  } catch (error) {
+    console.error('Get delivery settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json();
+    const current = await getDeliveryChannels(userId);
+    const channels: DeliveryChannels = { webhook: null, email: null };
+
+    const webhookUrl = typeof body.webhook?.url === 'string' ? body.webhook.url.trim() : '';
+    if (webhookUrl) {
+      let parsed: URL;
+      try {
+        parsed = new URL(webhookUrl);
+      } catch {
+        return NextResponse.json({ error: 'Webhook URL is not a valid URL' }, { status: 400 });
+      }
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        return NextResponse.json({ error: 'Webhook URL must use http or https' }, { status: 400 });
+      }
+      try {
+        await assertPublicUrl(webhookUrl);
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        return NextResponse.json({ error: `Webhook URL can't be used: ${reason}` }, { status: 400 });
+      }
+      // Keep the signing secret stable unless the user asks for a new one
+      const secret = body.webhook?.rotate_secret || !current.webhook?.secret
+        ? generateWebhookSecret()
+        : current.webhook.secret;
+      channels.webhook = { enabled: body.webhook?.enabled === true, url: webhookUrl, secret };
+    }
+
+    const address = typeof body.email?.address === 'string' ? body.email.address.trim() : '';
+    if (address) {
+      if (!EMAIL_PATTERN.test(address)) {
+        return NextResponse.json({ error: 'Email address is not valid' }, { status: 400 });
+      }
+      channels.email = { enabled: body.email?.enabled === true, address };
+    }
+
+    await setDeliveryChannels(userId, channels);
+    return NextResponse.json({ channels });
+  } catch (error) {
+    console.error('Set delivery settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
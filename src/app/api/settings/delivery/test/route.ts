@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies } from '@/lib/auth';
+import { sendTestDelivery } from '@/lib/delivery';
+
+// Send the latest digest over one channel so the user can check their setup
+export async function POST(request: Request) {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { channel } = await request.json();
+    if (channel !== 'webhook' && channel !== 'email') {
+      return NextResponse.json({ error: 'Invalid channel' }, { status: 400 });
+    }
+
+    try {
+      await sendTestDelivery(userId, channel);
+    } catch (err) {
+      return NextResponse.json({ success: false, error: err instanceof Error ? err.message : String(err) });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Test delivery error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies, requireAdmin } from '@/lib/auth';
+import { getGlobalSetting, setGlobalSetting } from '@/lib/db/settings';
+import { EMBEDDING_PROVIDERS, getEmbeddingProviderName, checkOpenAiCompatibleProvider } from '@/lib/embeddings';
+
+export async function GET() {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const [provider, baseUrl, model] = await Promise.all([
+      getEmbeddingProviderName(),
+      getGlobalSetting('embedding_base_url'),
+      getGlobalSetting('embedding_model'),
+    ]);
+    return NextResponse.json({ provider, base_url: baseUrl ?? '', model: model ?? '' });
+  } catch (error) {
+    console.error('Get embedding provider error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const isAdmin = await requireAdmin(userId);
+    if (!isAdmin) return NextResponse.json({ error: 'Admin only' }, { status: 403 });
+
+    const { provider, base_url, model } = await request.json();
+    if (!EMBEDDING_PROVIDERS.includes(provider)) {
+      return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
+    }
+
+    if (provider === 'openai_compatible') {
+      const baseUrl = typeof base_url === 'string' ? base_url.trim() : '';
+      const modelName = typeof model === 'string' ? model.trim() : '';
+      if (!/^https?:\/\/\S+$/.test(baseUrl)) {
+        return NextResponse.json({ error: 'Base URL must be an http(s) URL' }, { status: 400 });
+      }
+      if (!modelName) {
+        return NextResponse.json({ error: 'Model is required' }, { status: 400 });
+      }
+      // Test a new server or model before it is used: otherwise every vector could fail to store
+      // and scoring would fall back to the LLM for every article
+      const [currentProvider, currentBaseUrl, currentModel] = await Promise.all([
+        getEmbeddingProviderName(),
+        getGlobalSetting('embedding_base_url'),
+        getGlobalSetting('embedding_model'),
+      ]);
+      if (currentProvider !== provider || currentBaseUrl !== baseUrl || currentModel !== modelName) {
+        const problem = await checkOpenAiCompatibleProvider(baseUrl, modelName);
+        if (problem) {
+          return NextResponse.json({ error: problem }, { status: 400 });
+        }
+      }
+      await setGlobalSetting('embedding_base_url', baseUrl);
+      await setGlobalSetting('embedding_model', modelName);
+    }
+
+    await setGlobalSetting('embedding_provider', provider);
+    return NextResponse.json({ success: true, provider });
+  } catch (error) {
+    console.error('Set embedding provider error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getSessionFromCookies, requireAdmin } from '@/lib/auth';
 import { getGlobalSetting, setGlobalSetting } from '@/lib/db/settings';
+import { clearSourceCacheHeaders } from '@/lib/db/sources';
 
 export async function GET() {
   try {
@@ -28,7 +29,10 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
     }
 
+    const previous = (await getGlobalSetting('llm_provider')) || 'synthetic';
     await setGlobalSetting('llm_provider', provider);
+    // The new provider has no copies of the articles already ingested; fetch feeds in full once
+    if (provider !== previous) await clearSourceCacheHeaders();
     return NextResponse.json({ success: true, provider });
   } catch (error) {
     console.error('Set provider error:', error);
@@ -1,14 +1,15 @@
 import { NextResponse } from 'next/server';
 import { getSessionFromCookies } from '@/lib/auth';
-import { getSchedule, setSchedule } from '@/lib/db/settings';
+import { getSchedule, setSchedule, getTimezone, setTimezone } from '@/lib/db/settings';
+import { isValidTimezone } from '@/lib/relevance/schedule';
 
 export async function GET() {
   try {
     const userId = await getSessionFromCookies();
     if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const times = await getSchedule(userId);
-    return NextResponse.json({ times });
+    const [times, timezone] = await Promise.all([getSchedule(userId), getTimezone(userId)]);
+    return NextResponse.json({ times, timezone });
   } catch (error) {
     console.error('Get schedule error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -20,7 +21,7 @@ export async function PUT(request: Request) {
     const userId = await getSessionFromCookies();
     if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const { times } = await request.json();
+    const { times, timezone } = await request.json();
     if (!Array.isArray(times) || times.length === 0) {
       return NextResponse.json({ error: 'At least one time required' }, { status: 400 });
     }
@@ -33,8 +34,15 @@ export async function PUT(request: Request) {
       }
     }
 
-    await setSchedule(userId, times);
-    return NextResponse.json({ success: true, times });
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+      return NextResponse.json({ error: `Unknown timezone: ${timezone}` }, { status: 400 });
+    }
+
+    // Store sorted and de-duplicated so the UI and scheduler agree on the order
+    const uniqueTimes = [...new Set<string>(times)].sort();
+    await setSchedule(userId, uniqueTimes);
+    if (timezone !== undefined) await setTimezone(userId, timezone);
+    return NextResponse.json({ success: true, times: uniqueTimes, timezone: timezone ?? await getTimezone(userId) });
   } catch (error) {
     console.error('Set schedule error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
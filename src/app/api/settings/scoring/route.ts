@@ -21,6 +21,8 @@ const SCORING_DEFAULTS: Record<string, string> = {
   affinity_analysis_day: '0',
   source_trust_min: '0.8',
   source_trust_max: '1.2',
+  // Extra query params stripped from article URLs at ingest (on top of the built-in list)
+  tracking_param_blocklist: '',
 };
 
 const SCORING_KEYS = Object.keys(SCORING_DEFAULTS);
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies, generateApiToken, API_TOKEN_SCOPES } from '@/lib/auth';
+import { createApiToken, getApiTokensByUserId, getApiTokenCount } from '@/lib/db/api-tokens';
+import type { ApiTokenScope } from '@/types';
+
+const MAX_API_TOKENS = 20;
+const MAX_NAME_LENGTH = 100;
+
+// Token management is session-only: a token can't be used to mint or revoke tokens
+export async function GET() {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const tokens = await getApiTokensByUserId(userId);
+    return NextResponse.json({ tokens, scopes: API_TOKEN_SCOPES });
+  } catch (error) {
+    console.error('Get API tokens error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userId = await getSessionFromCookies();
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `Name is required (max ${MAX_NAME_LENGTH} characters)` }, { status: 400 });
+    }
+
+    const scopes: ApiTokenScope[] = Array.isArray(body.scopes) ? [...new Set<ApiTokenScope>(body.scopes)] : [];
+    if (scopes.length === 0 || scopes.some(s => !API_TOKEN_SCOPES.includes(s))) {
+      return NextResponse.json({ error: `Choose at least one scope: ${API_TOKEN_SCOPES.join(', ')}` }, { status: 400 });
+    }
+
+    if (await getApiTokenCount(userId) >= MAX_API_TOKENS) {
+      return NextResponse.json({ error: `Token limit reached (${MAX_API_TOKENS}). Revoke one first.` }, { status: 400 });
+    }
+
+    const { token, hash, prefix } = generateApiToken();
+    const apiToken = await createApiToken(userId, name, hash, prefix, scopes);
+    // The plaintext token is returned once and never stored
+    return NextResponse.json({ token: apiToken, secret: token }, { status: 201 });
+  } catch (error) {
+    console.error('Create API token error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
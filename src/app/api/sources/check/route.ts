@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server';
-import { getSessionFromCookies } from '@/lib/auth';
-import { validateRssFeed } from '@/lib/ingestion/rss';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { validateFeed } from '@/lib/ingestion/validate';
+import { discoverFeeds } from '@/lib/ingestion/discovery';
+import { isThinContent } from '@/lib/ingestion/full-text';
 import { timeAgo } from '@/lib/utils/time';
 
 export async function POST(request: Request) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'sources:manage');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -15,17 +17,24 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'URL required' }, { status: 400 });
     }
 
-    const result = await validateRssFeed(url.trim());
+    const result = await validateFeed(url.trim());
 
     if (!result.valid) {
+      // Not a feed — maybe a website that links to one
+      const candidates = await discoverFeeds(url.trim());
       return NextResponse.json({
         valid: false,
         title: null,
         article_count: 0,
         recent_count: 0,
         newest_article_age: null,
-        error: result.error || 'This URL doesn\'t appear to be a valid RSS or Atom feed.',
+        error: candidates.length > 0
+          ? `This URL isn't a feed, but we found ${candidates.length} feed${candidates.length !== 1 ? 's' : ''} for this site.`
+          : result.error || 'This URL doesn\'t appear to be a valid RSS or Atom feed.',
         warnings: [],
+        type: null,
+        config: null,
+        candidates,
       });
     }
 
@@ -74,14 +83,22 @@ export async function POST(request: Request) {
       );
     }
 
+    // Mostly short or missing snippets: offer full-text fetching for this source
+    const thinCount = result.articles.filter(a => isThinContent(a.content)).length;
+    const thinContent = result.articles.length > 0 && thinCount > result.articles.length / 2;
+
     return NextResponse.json({
       valid: true,
+      type: result.type,
+      config: result.config,
       title: result.title,
       article_count: result.articles.length,
       recent_count: recentArticles.length,
       newest_article_age: newestArticleAge,
       error: null,
       warnings,
+      thin_content: thinContent,
+      candidates: [],
     });
   } catch (error) {
     console.error('Source check error:', error);
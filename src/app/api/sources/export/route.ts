@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { getEnabledSourcesForUser } from '@/lib/db/sources';
+import { buildOpml } from '@/lib/opml';
+
+export async function GET(request: Request) {
+  try {
+    const userId = await getUserIdFromRequest(request, 'sources:manage');
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Enabled private sources + default sources the user hasn't opted out of
+    const sources = await getEnabledSourcesForUser(userId);
+    const feeds = sources
+      .filter(s => (s.type === 'rss' || s.type === 'json_feed') && typeof s.config.url === 'string')
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(s => ({ name: s.name, url: s.config.url as string }));
+
+    const xml = buildOpml('ketchup sources', feeds);
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'text/x-opml; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="ketchup-sources.opml"',
+      },
+    });
+  } catch (error) {
+    console.error('Export sources error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
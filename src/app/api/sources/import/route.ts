@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { getSourcesForUser, createSource } from '@/lib/db/sources';
+import { getGlobalSetting } from '@/lib/db/settings';
+import { validateFeed } from '@/lib/ingestion/validate';
+import { normalizeUrl } from '@/lib/ingestion/utils';
+import { runFetchPool, hostnameOf } from '@/lib/ingestion/fetch-pool';
+import { parseOpml } from '@/lib/opml';
+import type { OpmlFeed } from '@/lib/opml';
+
+export const maxDuration = 300; // validating a large OPML file fetches many feeds
+
+const MAX_IMPORT_FEEDS = 200;
+// Leave headroom under maxDuration to create the sources and respond
+const VALIDATION_BUDGET_MS = 240_000;
+const TIMED_OUT_ERROR = 'Timed out before this feed could be checked; import the file again';
+
+type ImportStatus = 'added' | 'duplicate' | 'invalid' | 'limit_reached' | 'failed';
+
+interface ImportResult {
+  name: string;
+  url: string;
+  status: ImportStatus;
+  error?: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const userId = await getUserIdFromRequest(request, 'sources:manage');
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { opml } = await request.json();
+    if (!opml || typeof opml !== 'string') {
+      return NextResponse.json({ error: 'OPML content required' }, { status: 400 });
+    }
+
+    let feeds: OpmlFeed[];
+    try {
+      feeds = parseOpml(opml);
+    } catch {
+      return NextResponse.json({ error: 'Failed to parse file. Make sure it\'s a valid OPML/XML file.' }, { status: 400 });
+    }
+    if (feeds.length === 0) {
+      return NextResponse.json({ error: 'No feeds found in file.' }, { status: 400 });
+    }
+    if (feeds.length > MAX_IMPORT_FEEDS) {
+      return NextResponse.json({ error: `Too many feeds in file (${feeds.length}). Import at most ${MAX_IMPORT_FEEDS} at a time.` }, { status: 400 });
+    }
+
+    // Dedupe against existing sources (defaults + private) and within the file itself
+    const existing = await getSourcesForUser(userId);
+    const knownUrls = new Set(
+      existing
+        .map(s => s.config.url)
+        .filter((u): u is string => typeof u === 'string')
+        .map(u => normalizeUrl(u))
+    );
+
+    const results: ImportResult[] = [];
+    const toValidate: { index: number; feed: OpmlFeed }[] = [];
+    for (const feed of feeds) {
+      const key = normalizeUrl(feed.url);
+      if (knownUrls.has(key)) {
+        results.push({ name: feed.name, url: feed.url, status: 'duplicate' });
+        continue;
+      }
+      knownUrls.add(key);
+      results.push({ name: feed.name, url: feed.url, status: 'failed' });
+      toValidate.push({ index: results.length - 1, feed });
+    }
+
+    const privateCount = existing.filter(s => !s.is_default && s.enabled && s.type !== 'manual_url').length;
+    const maxSetting = await getGlobalSetting('max_private_sources_per_user');
+    const maxSources = maxSetting ? parseInt(maxSetting, 10) : 25;
+    let remaining = Math.max(0, maxSources - privateCount);
+    const deadline = Date.now() + VALIDATION_BUDGET_MS;
+
+    // Pre-check feeds politely (bounded concurrency, per-host limits), in file order and only as
+    // many at a time as the private source limit still has room for, so the limit cuts off the
+    // tail of the file and feeds that could never be added aren't fetched
+    let next = 0;
+    while (remaining > 0 && next < toValidate.length && Date.now() < deadline) {
+      const wave = toValidate.slice(next, next + remaining);
+      next += wave.length;
+
+      const { completed: validations, skipped } = await runFetchPool(
+        wave,
+        item => hostnameOf(item.feed.url, item.feed.url),
+        async item => ({ ...item, validation: await validateFeed(item.feed.url) }),
+        { concurrency: 8, perHostConcurrency: 2, perHostDelayMs: 500, deadline }
+      );
+      for (const { index, feed } of skipped) {
+        results[index] = { name: feed.name, url: feed.url, status: 'failed', error: TIMED_OUT_ERROR };
+      }
+
+      validations.sort((a, b) => a.index - b.index);
+      for (const { index, feed, validation } of validations) {
+        if (!validation.valid || !validation.type || !validation.config) {
+          results[index] = { name: feed.name, url: feed.url, status: 'invalid', error: validation.error || 'Not a valid RSS, Atom, or JSON feed' };
+          continue;
+        }
+        const name = feed.name || validation.title || hostnameOf(feed.url, feed.url);
+        try {
+          await createSource(userId, name, validation.type, validation.config);
+          results[index] = { name, url: feed.url, status: 'added' };
+          remaining--;
+        } catch (err) {
+          results[index] = { name, url: feed.url, status: 'failed', error: String(err) };
+        }
+      }
+    }
+
+    // Whatever was never checked: over the limit, or out of time
+    for (const { index, feed } of toValidate.slice(next)) {
+      results[index] = remaining <= 0
+        ? { name: feed.name, url: feed.url, status: 'limit_reached', error: `Private source limit reached (${maxSources})` }
+        : { name: feed.name, url: feed.url, status: 'failed', error: TIMED_OUT_ERROR };
+    }
+
+    const count = (status: ImportStatus) => results.filter(r => r.status === status).length;
+    return NextResponse.json({
+      total: feeds.length,
+      added: count('added'),
+      duplicates: count('duplicate'),
+      invalid: count('invalid'),
+      limit_reached: count('limit_reached'),
+      failed: count('failed'),
+      results,
+    });
+  } catch (error) {
+    console.error('Import sources error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { saveManualUrl } from '@/lib/ingestion';
+import { categorizeRssError } from '@/lib/ingestion/rss';
+import { getActiveProvider } from '@/lib/llm';
+
+export async function POST(request: Request) {
+  try {
+    const userId = await getUserIdFromRequest(request, 'sources:manage');
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { url } = await request.json();
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'URL required' }, { status: 400 });
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return NextResponse.json({ error: 'Invalid URL' }, { status: 400 });
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return NextResponse.json({ error: 'Only http and https URLs can be saved' }, { status: 400 });
+    }
+
+    const provider = await getActiveProvider();
+
+    let result;
+    try {
+      result = await saveManualUrl(userId, parsed.toString(), provider);
+    } catch (err) {
+      const { message } = categorizeRssError(err);
+      return NextResponse.json({ error: `Could not fetch this page: ${message}` }, { status: 422 });
+    }
+
+    if (result.duplicate) {
+      return NextResponse.json({ error: 'You have already saved this link' }, { status: 409 });
+    }
+
+    return NextResponse.json(result.article, { status: 201 });
+  } catch (error) {
+    console.error('Save URL error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getSessionFromCookies } from '@/lib/auth';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { getSourcesForUser, createSource } from '@/lib/db/sources';
 import { getGlobalSetting } from '@/lib/db/settings';
 import type { Source } from '@/types';
@@ -38,9 +38,9 @@ function computeHealthStatus(source: Source): HealthStatus {
   return 'stale';
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'sources:manage');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -59,7 +59,7 @@ export async function GET() {
 
 export async function POST(request: Request) {
   try {
-    const userId = await getSessionFromCookies();
+    const userId = await getUserIdFromRequest(request, 'sources:manage');
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -69,9 +69,9 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Name, type, and config required' }, { status: 400 });
     }
 
-    // Check soft limit on private sources
+    // Check soft limit on private sources (the "Saved links" source doesn't count)
     const existing = await getSourcesForUser(userId);
-    const privateCount = existing.filter(s => !s.is_default && s.enabled).length;
+    const privateCount = existing.filter(s => !s.is_default && s.enabled && s.type !== 'manual_url').length;
     const maxSetting = await getGlobalSetting('max_private_sources_per_user');
     const maxSources = maxSetting ? parseInt(maxSetting, 10) : 25;
     if (privateCount >= maxSources) {
@@ -11,8 +11,10 @@ import SwipeSettings from '@/components/SwipeSettings';
 import ExclusionManager from '@/components/ExclusionManager';
 import AdminPanel from '@/components/AdminPanel';
 import AccountSettings from '@/components/AccountSettings';
+import DeliverySettings from '@/components/DeliverySettings';
+import ApiTokenSettings from '@/components/ApiTokenSettings';
 
-const USER_TABS = ['Interests', 'Sources', 'Exclusions', 'Gestures', 'Preferences', 'Account'];
+const USER_TABS = ['Interests', 'Sources', 'Exclusions', 'Gestures', 'Preferences', 'Schedule', 'Delivery', 'API', 'Account'];
 type Tab = string;
 
 export default function SettingsPage() {
@@ -28,7 +30,7 @@ export default function SettingsPage() {
       .catch(() => {});
   }, []);
 
-  const tabs = isAdmin ? [...USER_TABS, 'Schedule', 'Logs', 'Admin'] : USER_TABS;
+  const tabs = isAdmin ? [...USER_TABS, 'Logs', 'Admin'] : USER_TABS;
 
   return (
     <div className="min-h-screen">
@@ -61,10 +63,12 @@ export default function SettingsPage() {
         {activeTab === 'Interests' && <InterestManager />}
         {activeTab === 'Sources' && <SourceManager />}
         {activeTab === 'Exclusions' && <ExclusionManager />}
-        {activeTab === 'Schedule' && isAdmin && <ScheduleManager />}
+        {activeTab === 'Schedule' && <ScheduleManager />}
         {activeTab === 'Gestures' && <SwipeSettings />}
         {activeTab === 'Preferences' && <PreferenceViewer />}
         {activeTab === 'Logs' && isAdmin && <IngestionLogs />}
+        {activeTab === 'Delivery' && <DeliverySettings />}
+        {activeTab === 'API' && <ApiTokenSettings />}
         {activeTab === 'Account' && <AccountSettings />}
         {activeTab === 'Admin' && isAdmin && <AdminPanel />}
       </main>
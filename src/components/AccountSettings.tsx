@@ -10,15 +10,40 @@ export default function AccountSettings() {
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
 
   useEffect(() => {
     fetch('/api/account')
       .then(res => res.json())
       .then(data => {
         if (data.display_name) setDisplayName(data.display_name);
+        setFeedToken(data.feed_token ?? null);
       });
   }, []);
 
+  const feedUrl = feedToken ? `${window.location.origin}/api/feeds/${feedToken}.xml` : null;
+
+  async function handleFeedToken(method: 'POST' | 'DELETE') {
+    setError('');
+    setMessage('');
+    setLoading(true);
+
+    try {
+      const res = await fetch('/api/account/feed-token', { method });
+      const data = await res.json();
+      if (res.ok) {
+        setFeedToken(data.feed_token);
+        setMessage(method === 'DELETE' ? 'Digest feed turned off' : feedToken ? 'Feed URL rotated — update your feed reader' : 'Digest feed created');
+      } else {
+        setError(data.error || 'Failed to update feed');
+      }
+    } catch {
+      setError('Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function handleUpdateProfile(e: React.FormEvent) {
     e.preventDefault();
     setError('');
@@ -141,6 +166,40 @@ export default function AccountSettings() {
           Change Password
         </button>
       </form>
+
+      <div className="p-4 rounded-lg bg-card border border-card-border space-y-3">
+        <p className="text-sm font-medium">Digest Feed</p>
+        <p className="text-xs text-muted">
+          Read your recommended and serendipity picks in any feed reader. Anyone with the URL can read the feed, so rotate it if it leaks.
+        </p>
+        {feedUrl && (
+          <input
+            type="text"
+            readOnly
+            value={feedUrl}
+            onFocus={e => e.target.select()}
+            className="w-full px-3 py-2 rounded border border-card-border bg-background text-foreground text-xs font-mono focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+        )}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => handleFeedToken('POST')}
+            disabled={loading}
+            className="px-4 py-2 rounded bg-accent text-white text-sm hover:opacity-90 disabled:opacity-50"
+          >
+            {feedToken ? 'Rotate URL' : 'Create feed URL'}
+          </button>
+          {feedToken && (
+            <button
+              onClick={() => handleFeedToken('DELETE')}
+              disabled={loading}
+              className="text-sm text-muted hover:text-danger transition-colors disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      </div>
     </div>
   );
 }
@@ -2,14 +2,25 @@
 
 import { useState } from 'react';
 
+interface FeedCandidate {
+  url: string;
+  type: string;
+  title: string | null;
+  article_count: number;
+}
+
 interface CheckResult {
   valid: boolean;
+  type?: string | null;
+  config?: Record<string, unknown> | null;
   title: string | null;
   article_count: number;
   recent_count: number;
   newest_article_age: string | null;
   error: string | null;
   warnings: string[];
+  thin_content?: boolean;
+  candidates?: FeedCandidate[];
 }
 
 type FlowState = 'idle' | 'checking' | 'result' | 'adding' | 'added';
@@ -23,13 +34,24 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
   const [state, setState] = useState<FlowState>('idle');
   const [feedUrl, setFeedUrl] = useState('');
   const [feedName, setFeedName] = useState('');
+  const [minPoints, setMinPoints] = useState('');
+  const [fullText, setFullText] = useState(false);
   const [result, setResult] = useState<CheckResult | null>(null);
   const [helpOpen, setHelpOpen] = useState(false);
 
   async function handleCheck(e: React.FormEvent) {
     e.preventDefault();
     if (!feedUrl.trim()) return;
+    await runCheck(feedUrl.trim());
+  }
 
+  // Picking a discovered feed re-runs the full check on it (article counts, warnings)
+  async function handlePickCandidate(candidate: FeedCandidate) {
+    setFeedUrl(candidate.url);
+    await runCheck(candidate.url);
+  }
+
+  async function runCheck(url: string) {
     setState('checking');
     setResult(null);
 
@@ -37,7 +59,7 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
       const res = await fetch('/api/sources/check', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: feedUrl.trim() }),
+        body: JSON.stringify({ url }),
       });
       const data: CheckResult = await res.json();
       setResult(data);
@@ -75,10 +97,15 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
       }
     }
 
+    const config: Record<string, unknown> = { ...(result?.config ?? { url: feedUrl.trim() }) };
+    const floor = parseInt(minPoints, 10);
+    if (result?.type === 'aggregator' && floor > 0) config.min_points = floor;
+    if (fullText) config.fetch_full_text = true;
+
     const res = await fetch('/api/sources', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name, type: 'rss', config: { url: feedUrl.trim() } }),
+      body: JSON.stringify({ name, type: result?.type || 'rss', config }),
     });
 
     if (res.ok) {
@@ -88,6 +115,8 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
       setTimeout(() => {
         setFeedUrl('');
         setFeedName('');
+        setMinPoints('');
+        setFullText(false);
         setResult(null);
         setState('idle');
       }, 2000);
@@ -108,6 +137,30 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
 
   const isDisabled = state === 'checking' || state === 'adding' || state === 'added' || atLimit;
 
+  // Offered when the feed's articles come without (enough) content
+  const fullTextInput = result?.valid && result.thin_content && (
+    <label className="flex items-center gap-2 text-xs text-muted">
+      <input type="checkbox" checked={fullText} onChange={e => setFullText(e.target.checked)} />
+      Fetch the full article page when the feed&apos;s snippet is too short
+    </label>
+  );
+
+  // Aggregators (Hacker News, Lobsters) can skip items below a popularity floor
+  const pointsFloorInput = result?.type === 'aggregator' && (
+    <label className="flex items-center gap-2 text-xs text-muted">
+      Only items with at least
+      <input
+        type="number"
+        min={0}
+        value={minPoints}
+        onChange={e => setMinPoints(e.target.value)}
+        placeholder="0"
+        className="w-20 px-2 py-1 rounded border border-card-border bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-1 focus:ring-accent text-xs"
+      />
+      points
+    </label>
+  );
+
   return (
     <div className="p-4 rounded-lg bg-card border border-card-border space-y-2">
       <div className="flex items-center justify-between mb-1">
@@ -133,6 +186,9 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
             <li>
               Look for an RSS or feed icon on the site (often in the footer or header).
             </li>
+            <li>
+              Paste the site&apos;s homepage &mdash; ketchup looks for feeds the site advertises and at common paths.
+            </li>
             <li>
               Try adding <code className="bg-card-border/50 px-1 rounded">/feed</code>,{' '}
               <code className="bg-card-border/50 px-1 rounded">/rss</code>, or{' '}
@@ -141,6 +197,10 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
             <li>
               Search for <em>&quot;[site name] RSS feed&quot;</em> &mdash; most sites document theirs.
             </li>
+            <li>
+              For Hacker News or Lobsters: paste <code className="bg-card-border/50 px-1 rounded">news.ycombinator.com</code> or{' '}
+              <code className="bg-card-border/50 px-1 rounded">lobste.rs</code> to follow the front page with points and comment counts.
+            </li>
             <li>
               For Reddit: add <code className="bg-card-border/50 px-1 rounded">/.rss</code> to any subreddit URL
               (e.g., <code className="bg-card-border/50 px-1 rounded">reddit.com/r/technology/.rss</code>).
@@ -161,7 +221,7 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
           type="url"
           value={feedUrl}
           onChange={e => setFeedUrl(e.target.value)}
-          placeholder="Paste feed URL (e.g. https://example.com/feed.xml)"
+          placeholder="Paste a feed or website URL (e.g. https://example.com)"
           className="w-full px-3 py-2 rounded border border-card-border bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-1 focus:ring-accent text-sm"
           disabled={isDisabled}
         />
@@ -182,7 +242,7 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
               disabled={!feedUrl.trim() || state === 'checking'}
               className="px-4 py-2 rounded bg-accent text-white text-sm hover:opacity-90 disabled:opacity-50 shrink-0"
             >
-              {state === 'checking' ? 'Checking feed...' : 'Check Feed'}
+              {state === 'checking' ? 'Checking...' : 'Check Feed'}
             </button>
           </div>
         )}
@@ -196,9 +256,11 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
               <div className="flex items-start gap-2 text-sm">
                 <span className="text-success shrink-0 mt-0.5">{'\u2713'}</span>
                 <span>
-                  Found {result.title ? `\u201C${result.title}\u201D` : 'feed'} — {result.article_count} article{result.article_count !== 1 ? 's' : ''}, {result.recent_count} from the last 14 days
+                  Found {result.title ? `\u201C${result.title}\u201D` : 'feed'}{result.type === 'json_feed' ? ' (JSON Feed)' : result.type === 'aggregator' ? ' (link aggregator)' : ''} — {result.article_count} article{result.article_count !== 1 ? 's' : ''}, {result.recent_count} from the last 14 days
                 </span>
               </div>
+              {pointsFloorInput}
+              {fullTextInput}
               <div className="flex flex-col sm:flex-row gap-2 mt-1">
                 <input
                   type="text"
@@ -230,7 +292,7 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
               <div className="flex items-start gap-2 text-sm">
                 <span className="text-serendipity shrink-0 mt-0.5">{'\u26A0'}</span>
                 <span>
-                  Found {result.title ? `\u201C${result.title}\u201D` : 'feed'} — {result.article_count} article{result.article_count !== 1 ? 's' : ''}, {result.recent_count} from the last 14 days
+                  Found {result.title ? `\u201C${result.title}\u201D` : 'feed'}{result.type === 'json_feed' ? ' (JSON Feed)' : result.type === 'aggregator' ? ' (link aggregator)' : ''} — {result.article_count} article{result.article_count !== 1 ? 's' : ''}, {result.recent_count} from the last 14 days
                 </span>
               </div>
               <div className="text-xs text-muted space-y-1 pl-5">
@@ -238,6 +300,8 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
                   <p key={i}>{w}</p>
                 ))}
               </div>
+              {pointsFloorInput}
+              {fullTextInput}
               <div className="flex flex-col sm:flex-row gap-2 mt-1">
                 <input
                   type="text"
@@ -264,7 +328,38 @@ export default function AddSourcePreCheck({ onSourceAdded, atLimit = false }: Ad
             </>
           )}
 
-          {!result.valid && (
+          {!result.valid && result.candidates && result.candidates.length > 0 && (
+            <>
+              <div className="flex items-start gap-2 text-sm">
+                <span className="text-serendipity shrink-0 mt-0.5">{'\u26A0'}</span>
+                <span>{result.error} Pick one to check it:</span>
+              </div>
+              <div className="space-y-1 pl-5">
+                {result.candidates.map(c => (
+                  <button
+                    key={c.url}
+                    onClick={() => handlePickCandidate(c)}
+                    className="block w-full text-left px-3 py-2 rounded border border-card-border hover:border-accent transition-colors"
+                  >
+                    <span className="block text-sm text-foreground">{c.title || c.url}</span>
+                    <span className="block text-xs text-muted truncate">
+                      {c.url} — {c.article_count} article{c.article_count !== 1 ? 's' : ''}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2 mt-1">
+                <button
+                  onClick={handleCancel}
+                  className="px-4 py-2 rounded border border-card-border text-muted text-sm hover:text-foreground shrink-0"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+
+          {!result.valid && !(result.candidates && result.candidates.length > 0) && (
             <>
               <div className="flex items-start gap-2 text-sm">
                 <span className="text-danger shrink-0 mt-0.5">{'\u2717'}</span>
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { ApiToken, ApiTokenScope } from '@/types';
+import { timeAgo } from '@/lib/utils/time';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'digests:read': 'Read digests',
+  'feedback:write': 'Post feedback',
+  'sources:manage': 'Manage sources',
+};
+
+export default function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<ApiTokenScope[]>(['digests:read']);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/settings/tokens')
+      .then(res => res.json())
+      .then(data => {
+        setTokens(data.tokens || []);
+        setScopes(data.scopes || []);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, []);
+
+  function toggleScope(scope: ApiTokenScope) {
+    setSelectedScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setNewSecret(null);
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes: selectedScopes }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setTokens(prev => [data.token, ...prev]);
+        setNewSecret(data.secret);
+        setName('');
+      } else {
+        setError(data.error || 'Failed to create token');
+      }
+    } catch {
+      setError('Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRevoke(id: string) {
+    setError('');
+    try {
+      const res = await fetch(`/api/settings/tokens/${id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setTokens(prev => prev.filter(t => t.id !== id));
+      } else {
+        const data = await res.json();
+        setError(data.error || 'Failed to revoke token');
+      }
+    } catch {
+      setError('Something went wrong');
+    }
+  }
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted">
+        Personal access tokens let scripts use the API on your behalf. Send them as{' '}
+        <code className="px-1 py-0.5 rounded bg-background text-foreground text-xs font-mono">Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {error && <p className="text-sm text-danger text-center">{error}</p>}
+
+      {newSecret && (
+        <div className="p-4 rounded-lg bg-accent-light border border-accent space-y-2">
+          <p className="text-sm font-medium">Copy your new token now — it won&apos;t be shown again.</p>
+          <input
+            type="text"
+            readOnly
+            value={newSecret}
+            onFocus={e => e.target.select()}
+            className="w-full px-3 py-2 rounded border border-card-border bg-background text-foreground text-xs font-mono focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="p-4 rounded-lg bg-card border border-card-border space-y-3">
+        <p className="text-sm font-medium">New token</p>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="What's it for? e.g. laptop CLI"
+          className="w-full px-3 py-2 rounded border border-card-border bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-1 focus:ring-accent text-sm"
+        />
+        <div className="flex flex-wrap gap-4">
+          {scopes.map(scope => (
+            <label key={scope} className="flex items-center gap-2 text-xs text-muted">
+              <input type="checkbox" checked={selectedScopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {SCOPE_LABELS[scope] ?? scope}
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !name.trim() || selectedScopes.length === 0}
+          className="px-4 py-2 rounded bg-accent text-white text-sm hover:opacity-90 disabled:opacity-50"
+        >
+          {saving ? 'Creating...' : 'Create token'}
+        </button>
+      </form>
+
+      {tokens.length > 0 && (
+        <ul className="space-y-2">
+          {tokens.map(t => (
+            <li key={t.id} className="flex items-center justify-between gap-3 rounded border border-card-border px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm truncate">
+                  {t.name} <span className="text-xs text-muted font-mono">{t.token_prefix}…</span>
+                </p>
+                <p className="text-xs text-muted">
+                  {t.scopes.map(s => SCOPE_LABELS[s] ?? s).join(', ')}
+                  {` · created ${timeAgo(t.created_at)}`}
+                  {` · ${t.last_used_at ? `last used ${timeAgo(t.last_used_at)}` : 'never used'}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(t.id)}
+                className="shrink-0 text-xs text-muted hover:text-danger transition-colors"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import type { UserArticleWithSource, Sentiment, DigestTier } from '@/types';
 import ActionBar from './FeedbackButtons';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { useToast } from './Toast';
-import { timeAgo } from '@/lib/utils/time';
+import { timeAgo, formatDuration } from '@/lib/utils/time';
 
 interface ArticleCardProps {
   article: UserArticleWithSource;
@@ -21,11 +21,16 @@ export default function ArticleCard({ article, reversed = false, tier, onArchive
   const [sentiment, setSentiment] = useState<Sentiment | null>(article.sentiment);
   const [isRead, setIsRead] = useState(article.is_read);
   const [isTouchDevice, setIsTouchDevice] = useState(false);
+  const [showAlternates, setShowAlternates] = useState(false);
+  const [showWhy, setShowWhy] = useState(false);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const { showToast } = useToast();
 
   const isSerendipity = !!article.is_serendipity;
   const isBonus = tier === 'bonus';
+  const alternates = article.also_covered_by ?? [];
+  const breakdown = article.score_breakdown;
+  const alternateSources = [...new Set(alternates.map(a => a.source_name))];
 
   // Detect touch device on first touchstart
   useEffect(() => {
@@ -237,9 +242,108 @@ export default function ArticleCard({ article, reversed = false, tier, onArchive
                 </p>
               )}
 
+              {/* Other sources covering the same story */}
+              {alternates.length > 0 && (
+                <div className="mb-3">
+                  <button
+                    onClick={() => setShowAlternates(v => !v)}
+                    className="text-xs text-muted hover:text-foreground transition-colors text-left"
+                    aria-expanded={showAlternates}
+                  >
+                    Also covered by {alternateSources.slice(0, 2).join(', ')}
+                    {alternateSources.length > 2 ? ` (+${alternateSources.length - 2})` : ''}
+                    {showAlternates ? ' \u25B4' : ' \u25BE'}
+                  </button>
+                  {showAlternates && (
+                    <ul className="mt-1.5 space-y-1 border-l border-card-border pl-3">
+                      {alternates.map(alt => (
+                        <li key={alt.article_id} className="text-xs">
+                          <span className="text-muted">{alt.source_name}: </span>
+                          <a
+                            href={alt.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="hover:text-accent transition-colors"
+                          >
+                            {alt.title}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {/* Why am I seeing this? — embedding matches, penalties and the LLM's reason */}
+              {(breakdown || article.relevance_reason) && (
+                <div className="mb-3">
+                  <button
+                    onClick={() => setShowWhy(v => !v)}
+                    className="text-xs text-muted hover:text-foreground transition-colors text-left"
+                    aria-expanded={showWhy}
+                  >
+                    Why am I seeing this?{showWhy ? ' \u25B4' : ' \u25BE'}
+                  </button>
+                  {showWhy && (
+                    <div className="mt-1.5 space-y-1 border-l border-card-border pl-3 text-xs text-muted">
+                      {article.relevance_reason && (
+                        <p><span className="text-foreground/80">Reason:</span> {article.relevance_reason}</p>
+                      )}
+                      {breakdown && (
+                        <>
+                          {breakdown.interests.length > 0 ? (
+                            <p>
+                              <span className="text-foreground/80">Matched interests:</span>{' '}
+                              {breakdown.interests.map(m =>
+                                `${m.category || 'Removed interest'} (${Math.round(m.similarity * 100)}%${m.weight !== 1 ? `, weight ${m.weight}` : ''}${m.feedback_adjusted ? ', tuned by your feedback' : ''})`
+                              ).join(', ')}
+                            </p>
+                          ) : (
+                            <p>No close interest match</p>
+                          )}
+                          <p>
+                            <span className="text-foreground/80">Exclusions:</span>{' '}
+                            {breakdown.exclusions.length > 0
+                              ? `${breakdown.exclusions.map(x => `${x.category || 'Removed exclusion'} (${Math.round(x.similarity * 100)}%)`).join(', ')} \u2014 score \u00D7${breakdown.exclusion_penalty.toFixed(2)}`
+                              : 'no penalty'}
+                          </p>
+                          <p>
+                            <span className="text-foreground/80">Source trust:</span>{' '}
+                            {breakdown.source_trust === 1
+                              ? 'neutral'
+                              : `\u00D7${breakdown.source_trust.toFixed(2)} (${breakdown.source_trust > 1 ? 'you usually like' : 'you often skip'} ${article.source_name})`}
+                          </p>
+                          {article.embedding_score != null && (
+                            <p><span className="text-foreground/80">Embedding score:</span> {Number(article.embedding_score).toFixed(2)}</p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Metadata + action bar */}
               <div className="flex items-center justify-between gap-2 flex-wrap">
-                <span className="text-xs text-muted">
+                <span className="text-xs text-muted flex items-center gap-1.5">
+                  {article.media_type && (
+                    <span className="px-1.5 py-0.5 rounded bg-card-border/50 text-foreground/80 leading-tight">
+                      {article.media_type === 'audio' ? '\uD83C\uDFA7 Podcast' : '\u25B6 Video'}
+                      {article.duration_seconds ? ` \u00B7 ${formatDuration(article.duration_seconds)}` : ''}
+                    </span>
+                  )}
+                  {article.points != null && (
+                    <a
+                      href={article.comments_url || article.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-foreground transition-colors"
+                      title="Points and comments on the aggregator"
+                    >
+                      {`\u25B2 ${article.points}`}
+                      {article.comment_count != null ? ` \u00B7 ${article.comment_count} comment${article.comment_count !== 1 ? 's' : ''}` : ''}
+                    </a>
+                  )}
                   {timeAgo(article.published_at)}
                 </span>
                   <ActionBar
@@ -8,6 +8,9 @@ interface CostSummary {
   llm_input_tokens: number;
   llm_output_tokens: number;
   llm_cost: number;
+  llm_cache_hits: number;
+  llm_cache_misses: number;
+  llm_cache_hit_rate: number;
   total_cost: number;
   avg_cost_per_day: number;
   avg_cost_per_digest: number;
@@ -245,6 +248,12 @@ export default function CostDashboard() {
             </p>
           </div>
         </div>
+        {data.summary.llm_cache_hits + data.summary.llm_cache_misses > 0 && (
+          <p className="mt-3 text-xs text-muted">
+            LLM response cache: {fmt(data.summary.llm_cache_hits)} hits, {fmt(data.summary.llm_cache_misses)} misses
+            ({Math.round(data.summary.llm_cache_hit_rate * 100)}% of scoring batches served without an API call)
+          </p>
+        )}
       </div>
 
       {/* Panel 2: Cost by User */}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { DeliveryChannel, DeliveryChannels, DigestDelivery } from '@/types';
+import { timeAgo } from '@/lib/utils/time';
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded border border-card-border bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-1 focus:ring-accent text-sm';
+
+export default function DeliverySettings() {
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookEnabled, setWebhookEnabled] = useState(false);
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [emailAddress, setEmailAddress] = useState('');
+  const [emailEnabled, setEmailEnabled] = useState(false);
+  const [smtpConfigured, setSmtpConfigured] = useState(false);
+  const [deliveries, setDeliveries] = useState<DigestDelivery[]>([]);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState<DeliveryChannel | null>(null);
+
+  const applyChannels = useCallback((channels: DeliveryChannels) => {
+    setWebhookUrl(channels.webhook?.url ?? '');
+    setWebhookEnabled(channels.webhook?.enabled ?? false);
+    setWebhookSecret(channels.webhook?.secret ?? '');
+    setEmailAddress(channels.email?.address ?? '');
+    setEmailEnabled(channels.email?.enabled ?? false);
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/settings/delivery')
+      .then(res => res.json())
+      .then(data => {
+        if (data.channels) applyChannels(data.channels);
+        setDeliveries(data.deliveries || []);
+        setSmtpConfigured(data.smtp_configured === true);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, [applyChannels]);
+
+  async function save(rotateSecret = false) {
+    setError('');
+    setMessage('');
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings/delivery', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          webhook: { url: webhookUrl, enabled: webhookEnabled, rotate_secret: rotateSecret },
+          email: { address: emailAddress, enabled: emailEnabled },
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        applyChannels(data.channels);
+        setMessage(rotateSecret ? 'Signing secret rotated' : 'Delivery settings saved');
+      } else {
+        setError(data.error || 'Failed to save');
+      }
+    } catch {
+      setError('Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function sendTest(channel: DeliveryChannel) {
+    setError('');
+    setMessage('');
+    setTesting(channel);
+    try {
+      const res = await fetch('/api/settings/delivery/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setMessage(`Test ${channel === 'webhook' ? 'webhook' : 'email'} sent with your latest digest`);
+      } else {
+        setError(data.error || 'Test failed');
+      }
+    } catch {
+      setError('Something went wrong');
+    } finally {
+      setTesting(null);
+    }
+  }
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted">
+        Get pushed a summary whenever a new digest is generated. Failed deliveries are retried automatically.
+      </p>
+
+      {message && <p className="text-sm text-accent text-center">{message}</p>}
+      {error && <p className="text-sm text-danger text-center">{error}</p>}
+
+      <div className="p-4 rounded-lg bg-card border border-card-border space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Webhook</p>
+          <label className="flex items-center gap-2 text-xs text-muted">
+            <input type="checkbox" checked={webhookEnabled} onChange={e => setWebhookEnabled(e.target.checked)} />
+            Enabled
+          </label>
+        </div>
+        <input
+          type="url"
+          value={webhookUrl}
+          onChange={e => setWebhookUrl(e.target.value)}
+          placeholder="https://hooks.slack.com/services/..."
+          className={INPUT_CLASS}
+        />
+        <p className="text-xs text-muted">
+          Receives a JSON POST with the digest id, counts, top titles and a Slack-compatible <code>text</code> field.
+          Requests carry <code>X-Ketchup-Signature: sha256=HMAC(secret, timestamp + &quot;.&quot; + body)</code> and <code>X-Ketchup-Timestamp</code>.
+        </p>
+        {webhookSecret && (
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-muted break-all bg-background rounded px-2 py-1 border border-card-border">{webhookSecret}</code>
+            <button
+              onClick={() => save(true)}
+              disabled={saving}
+              className="text-xs text-muted hover:text-foreground transition-colors disabled:opacity-50"
+            >
+              Rotate
+            </button>
+          </div>
+        )}
+        {webhookSecret && (
+          <button
+            onClick={() => sendTest('webhook')}
+            disabled={testing !== null}
+            className="text-xs text-accent hover:opacity-80 disabled:opacity-50"
+          >
+            {testing === 'webhook' ? 'Sending...' : 'Send test'}
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-card border border-card-border space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Email</p>
+          <label className="flex items-center gap-2 text-xs text-muted">
+            <input type="checkbox" checked={emailEnabled} onChange={e => setEmailEnabled(e.target.checked)} disabled={!smtpConfigured} />
+            Enabled
+          </label>
+        </div>
+        {smtpConfigured ? (
+          <>
+            <input
+              type="email"
+              value={emailAddress}
+              onChange={e => setEmailAddress(e.target.value)}
+              placeholder="you@example.com"
+              className={INPUT_CLASS}
+            />
+            {emailAddress && (
+              <button
+                onClick={() => sendTest('email')}
+                disabled={testing !== null}
+                className="text-xs text-accent hover:opacity-80 disabled:opacity-50"
+              >
+                {testing === 'email' ? 'Sending...' : 'Send test'}
+              </button>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-muted">Email delivery needs SMTP settings on the server (SMTP_HOST, SMTP_FROM).</p>
+        )}
+      </div>
+
+      <button
+        onClick={() => save()}
+        disabled={saving}
+        className="px-4 py-2 rounded bg-accent text-white text-sm hover:opacity-90 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+
+      {deliveries.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Recent deliveries</p>
+          <ul className="space-y-1">
+            {deliveries.map(d => (
+              <li key={d.id} className="text-xs text-muted flex items-center justify-between gap-2 rounded border border-card-border px-3 py-2">
+                <span className="truncate">
+                  <span className="text-foreground">{d.channel}</span> &middot; {d.target}
+                  {d.last_error && d.status !== 'sent' && <span className="text-danger"> &middot; {d.last_error}</span>}
+                </span>
+                <span className="shrink-0">
+                  <span className={d.status === 'sent' ? 'text-accent' : d.status === 'failed' ? 'text-danger' : ''}>
+                    {d.status === 'pending' && d.attempts > 0 ? 'retrying' : d.status}
+                  </span>
+                  {` · ${timeAgo(d.delivered_at ?? d.created_at)}`}
+                  {d.attempts > 1 ? ` · ${d.attempts} attempts` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import type { LogEvent } from '@/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { LogEvent, PipelineProgress } from '@/types';
 
 interface LogSummary {
   id: string;
@@ -74,6 +74,10 @@ export default function IngestionLogs() {
   const [detail, setDetail] = useState<LogDetail | null>(null);
   const [detailLoading, setDetailLoading] = useState(false);
 
+  const [ingesting, setIngesting] = useState(false);
+  const [ingestError, setIngestError] = useState('');
+  const streamRef = useRef<EventSource | null>(null);
+
   const fetchLogs = useCallback(async () => {
     const res = await fetch('/api/ingestion-logs');
     if (res.ok) {
@@ -84,29 +88,103 @@ export default function IngestionLogs() {
 
   useEffect(() => { fetchLogs(); }, [fetchLogs]);
 
+  // Close any live stream on unmount
+  useEffect(() => () => streamRef.current?.close(), []);
+
+  function stopFollowing() {
+    streamRef.current?.close();
+    streamRef.current = null;
+  }
+
+  // Append events to the open timeline as the pipeline writes them
+  function followLog(id: string, since: number) {
+    stopFollowing();
+    const source = new EventSource(`/api/ingestion-logs/${id}/stream?since=${since}`);
+    streamRef.current = source;
+
+    source.addEventListener('log', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as LogEvent;
+      setDetail(prev => prev && prev.id === id ? { ...prev, events: [...prev.events, event] } : prev);
+    });
+    source.addEventListener('status', (e) => {
+      const update = JSON.parse((e as MessageEvent).data) as Pick<LogSummary, 'status' | 'summary' | 'error' | 'duration_ms'>;
+      setLogs(prev => prev.map(l => l.id === id ? { ...l, ...update } : l));
+      setDetail(prev => prev && prev.id === id ? { ...prev, ...update } : prev);
+    });
+    source.addEventListener('done', () => {
+      stopFollowing();
+      fetchLogs();
+    });
+  }
+
+  async function openLog(id: string) {
+    stopFollowing();
+    setExpandedId(id);
+    setDetailLoading(true);
+    const res = await fetch(`/api/ingestion-logs/${id}`);
+    if (res.ok) {
+      const log: LogDetail = await res.json();
+      setDetail(log);
+      if (log.status === 'running') followLog(id, log.events.length);
+    }
+    setDetailLoading(false);
+  }
+
   async function toggleExpand(id: string) {
     if (expandedId === id) {
+      stopFollowing();
       setExpandedId(null);
       setDetail(null);
       return;
     }
+    await openLog(id);
+  }
 
-    setExpandedId(id);
-    setDetailLoading(true);
-    const res = await fetch(`/api/ingestion-logs/${id}`);
-    if (res.ok) {
-      setDetail(await res.json());
+  async function handleIngestNow() {
+    setIngesting(true);
+    setIngestError('');
+    const request = fetch('/api/ingest', { method: 'POST' });
+
+    // The run's log exists as soon as it starts; follow it while the request is still working
+    setTimeout(async () => {
+      const res = await fetch('/api/ingestion-runs/current');
+      const data = res.ok ? await res.json() : null;
+      await fetchLogs();
+      if (data?.run?.log_id) await openLog(data.run.log_id);
+    }, 1500);
+
+    try {
+      const res = await request;
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setIngestError(data.error || 'Ingestion failed');
+      }
+    } catch {
+      setIngestError('Something went wrong');
+    } finally {
+      setIngesting(false);
+      fetchLogs();
     }
-    setDetailLoading(false);
   }
 
   if (loading) return <p className="text-muted text-sm">Loading...</p>;
 
   return (
     <div className="space-y-4">
-      <p className="text-sm text-muted">
-        Complete logs for every ingestion run. Click a row to see the full event timeline.
-      </p>
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-muted">
+          Complete logs for every ingestion run. Click a row to see the full event timeline; running logs update live.
+        </p>
+        <button
+          onClick={handleIngestNow}
+          disabled={ingesting}
+          className="shrink-0 px-3 py-1.5 rounded bg-accent text-white text-xs hover:opacity-90 disabled:opacity-50"
+        >
+          {ingesting ? 'Ingesting...' : 'Ingest now'}
+        </button>
+      </div>
+
+      {ingestError && <p className="text-sm text-danger text-center">{ingestError}</p>}
 
       {logs.length === 0 && (
         <p className="text-muted text-sm text-center py-4">
@@ -118,6 +196,7 @@ export default function IngestionLogs() {
         const badge = statusBadge[log.status];
         const summary = log.summary as Record<string, number | string | null>;
         const isExpanded = expandedId === log.id;
+        const progress = (log.summary as { progress?: PipelineProgress }).progress;
 
         return (
           <div key={log.id} className="rounded-lg border border-card-border bg-card overflow-hidden">
@@ -139,6 +218,9 @@ export default function IngestionLogs() {
                   )}
                 </div>
                 <div className="flex items-center gap-2 sm:gap-4 shrink-0 text-xs text-muted">
+                  {log.status === 'running' && progress && (
+                    <span>{progress.done + progress.failed}/{progress.total} jobs</span>
+                  )}
                   {summary.newArticles !== undefined && (
                     <span className="hidden sm:inline">{String(summary.newArticles)} new</span>
                   )}
@@ -174,8 +256,11 @@ export default function IngestionLogs() {
                     ['Fetched', summary.totalFetched],
                     ['New', summary.newArticles],
                     ['Duplicates', summary.duplicates],
+                    ['Not modified', summary.notModified],
+                    ['Full text', summary.fullTextFetched],
                     ['Errors', summary.errorCount],
                     ['Scored', summary.articlesScored],
+                    ['LLM cache hits', summary.llmCacheHits],
                     ['Digest articles', summary.digestArticleCount],
                   ]
                     .filter(([, v]) => v !== undefined)
@@ -9,6 +9,8 @@ interface Interest {
   description: string | null;
   weight: number;
   active: boolean;
+  /** Likes/skips that have tuned this interest's vector, null if none */
+  feedback: { liked: number; skipped: number } | null;
 }
 
 interface Limits {
@@ -66,6 +68,11 @@ export default function InterestManager() {
     fetchInterests();
   }
 
+  async function resetFeedback(id: string) {
+    await fetch(`/api/interests/${id}/feedback`, { method: 'DELETE' });
+    fetchInterests();
+  }
+
   async function deleteInterest(id: string) {
     await fetch(`/api/interests/${id}`, { method: 'DELETE' });
     fetchInterests();
@@ -150,6 +157,19 @@ export default function InterestManager() {
               ))}
             </div>
           </div>
+          {interest.feedback && (
+            <div className="flex items-center gap-2 mt-2 text-xs text-muted">
+              <span>
+                Tuned by your feedback ({interest.feedback.liked} like{interest.feedback.liked !== 1 ? 's' : ''}, {interest.feedback.skipped} skip{interest.feedback.skipped !== 1 ? 's' : ''})
+              </span>
+              <button
+                onClick={() => resetFeedback(interest.id)}
+                className="hover:text-foreground underline underline-offset-2"
+              >
+                Reset
+              </button>
+            </div>
+          )}
         </div>
       ))}
 
@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+
+interface SaveLinkFormProps {
+  onSaved: () => void;
+}
+
+export default function SaveLinkForm({ onSaved }: SaveLinkFormProps) {
+  const [url, setUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/sources/manual', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (res.ok) {
+        setMessage({ text: `Saved “${data.title}” — it will be scored into your next digest.`, ok: true });
+        setUrl('');
+        onSaved();
+      } else {
+        setMessage({ text: data.error || `HTTP ${res.status}`, ok: false });
+      }
+    } catch {
+      setMessage({ text: 'Network error — could not reach the server.', ok: false });
+    }
+
+    setSaving(false);
+  }
+
+  return (
+    <div className="p-4 rounded-lg bg-card border border-card-border space-y-2">
+      <p className="text-sm font-medium">Save a Link</p>
+      <p className="text-xs text-muted">
+        Paste any article URL. ketchup fetches the page, extracts the article text, and adds it to your next digest.
+      </p>
+      <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          placeholder="https://example.com/some-article"
+          className="flex-1 px-3 py-2 rounded border border-card-border bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-1 focus:ring-accent text-sm"
+          disabled={saving}
+        />
+        <button
+          type="submit"
+          disabled={!url.trim() || saving}
+          className="px-4 py-2 rounded bg-accent text-white text-sm hover:opacity-90 disabled:opacity-50 shrink-0"
+        >
+          {saving ? 'Saving...' : 'Save Link'}
+        </button>
+      </form>
+      {message && (
+        <p className={`text-xs ${message.ok ? 'text-success' : 'text-danger'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,139 @@
 'use client';
 
+import { useState, useEffect } from 'react';
+
+const INPUT_CLASS = 'px-3 py-2 rounded border border-card-border bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-1 focus:ring-accent text-sm';
+
 export default function ScheduleManager() {
+  const [times, setTimes] = useState<string[]>([]);
+  const [timezone, setTimezone] = useState('UTC');
+  const [newTime, setNewTime] = useState('12:00');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    fetch('/api/settings/schedule')
+      .then(res => res.json())
+      .then(data => {
+        setTimes(data.times || []);
+        if (data.timezone) setTimezone(data.timezone);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, []);
+
+  function addTime() {
+    if (!newTime || times.includes(newTime)) return;
+    setTimes([...times, newTime].sort());
+  }
+
+  function removeTime(time: string) {
+    setTimes(times.filter(t => t !== time));
+  }
+
+  async function save() {
+    setError('');
+    setMessage('');
+    if (times.length === 0) {
+      setError('Add at least one digest time');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings/schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ times, timezone: timezone.trim() }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setTimes(data.times);
+        setTimezone(data.timezone);
+        setMessage('Schedule saved');
+      } else {
+        setError(data.error || 'Failed to save');
+      }
+    } catch {
+      setError('Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return null;
+
   return (
-    <div className="space-y-4">
+    <div className="space-y-6">
       <p className="text-sm text-muted">
-        Your digest is generated once daily by a GitHub Actions workflow. You can also trigger ingestion
-        anytime with the <strong>Ingest Now</strong> button on the digest page.
+        A new digest is assembled at each of these local times, from whatever has been fetched since your last one.
+        You can also trigger ingestion anytime with the <strong>Ingest Now</strong> button on the digest page.
       </p>
 
+      {message && <p className="text-sm text-accent text-center">{message}</p>}
+      {error && <p className="text-sm text-danger text-center">{error}</p>}
+
       <div className="rounded-lg border border-card-border bg-card p-4 space-y-3">
-        <p className="text-sm text-foreground font-medium">Current schedule</p>
-        <p className="text-sm text-muted">Daily at 5:00 AM CT (11:00 UTC)</p>
-
-        <p className="text-xs text-muted">
-          To change the schedule, update the cron expression in{' '}
-          <code className="px-1 py-0.5 rounded bg-background text-foreground text-xs font-mono">.github/workflows/ingest.yml</code>{' '}
-          and push to main. Use{' '}
-          <a
-            href="https://crontab.guru/"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-accent hover:opacity-80"
+        <p className="text-sm text-foreground font-medium">Digest times</p>
+        {times.length === 0 ? (
+          <p className="text-xs text-muted">No times yet.</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2">
+            {times.map(time => (
+              <li key={time} className="flex items-center gap-2 rounded border border-card-border bg-background px-3 py-1 text-sm font-mono">
+                {time}
+                <button
+                  onClick={() => removeTime(time)}
+                  className="text-xs text-muted hover:text-danger transition-colors"
+                  aria-label={`Remove ${time}`}
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center gap-2">
+          <input type="time" value={newTime} onChange={e => setNewTime(e.target.value)} className={INPUT_CLASS} />
+          <button
+            onClick={addTime}
+            disabled={!newTime || times.includes(newTime)}
+            className="text-sm text-accent hover:opacity-80 disabled:opacity-50"
           >
-            crontab.guru
-          </a>{' '}
-          to build cron expressions. You can also trigger the workflow manually from the GitHub Actions tab.
-        </p>
+            Add
+          </button>
+        </div>
       </div>
+
+      <div className="rounded-lg border border-card-border bg-card p-4 space-y-3">
+        <p className="text-sm text-foreground font-medium">Timezone</p>
+        <input
+          type="text"
+          value={timezone}
+          onChange={e => setTimezone(e.target.value)}
+          placeholder="America/Chicago"
+          className={`w-full ${INPUT_CLASS}`}
+        />
+        {browserTimezone && browserTimezone !== timezone && (
+          <button
+            onClick={() => setTimezone(browserTimezone)}
+            className="text-xs text-accent hover:opacity-80"
+          >
+            Use this device&apos;s timezone ({browserTimezone})
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={save}
+        disabled={saving}
+        className="px-4 py-2 rounded bg-accent text-white text-sm hover:opacity-90 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
     </div>
   );
 }
@@ -12,7 +12,7 @@ const SCORING_LABELS: Record<string, string> = {
   max_llm_candidates: 'Max LLM candidates per user',
   blended_primary_weight: 'Blended primary weight',
   blended_secondary_weight: 'Blended secondary weight',
-  semantic_dedup_threshold: 'Semantic dedup threshold',
+  semantic_dedup_threshold: 'Story clustering threshold',
   exclusion_penalty_threshold: 'Exclusion penalty threshold',
   source_trust_min: 'Source trust min multiplier',
   source_trust_max: 'Source trust max multiplier',
@@ -37,10 +37,19 @@ const PROVIDERS = [
   { value: 'anthropic', label: 'Anthropic (Claude Sonnet)', description: 'High quality, higher cost' },
 ] as const;
 
+const EMBEDDING_PROVIDERS = [
+  { value: 'openai', label: 'OpenAI (text-embedding-3-small)', description: 'Default' },
+  { value: 'openai_compatible', label: 'OpenAI-compatible server', description: 'Self-hosted, e.g. Ollama or vLLM' },
+  { value: 'hashing', label: 'Offline hashing', description: 'Deterministic, no API — tests and dev only' },
+] as const;
+
 export default function ScoringSettings() {
   const [values, setValues] = useState<ScoringConfig>({});
   const [loading, setLoading] = useState(true);
   const [provider, setProvider] = useState('synthetic');
+  const [embeddingProvider, setEmbeddingProvider] = useState('openai');
+  const [embeddingBaseUrl, setEmbeddingBaseUrl] = useState('');
+  const [embeddingModel, setEmbeddingModel] = useState('');
   const [bonusEnabled, setBonusEnabled] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState('');
@@ -65,13 +74,21 @@ export default function ScoringSettings() {
         if (data?.provider) setProvider(data.provider);
       })
       .catch(() => {});
+    fetch('/api/settings/embedding-provider')
+      .then(res => res.json())
+      .then(data => {
+        if (data?.provider) setEmbeddingProvider(data.provider);
+        setEmbeddingBaseUrl(data?.base_url ?? '');
+        setEmbeddingModel(data?.model ?? '');
+      })
+      .catch(() => {});
   }, []);
 
   const handleSave = async () => {
     setSaving(true);
     setMessage('');
     try {
-      const [scoringRes, providerRes] = await Promise.all([
+      const [scoringRes, providerRes, embeddingRes] = await Promise.all([
         fetch('/api/settings/scoring', {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
@@ -82,10 +99,18 @@ export default function ScoringSettings() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ provider }),
         }),
+        fetch('/api/settings/embedding-provider', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ provider: embeddingProvider, base_url: embeddingBaseUrl, model: embeddingModel }),
+        }),
       ]);
-      if (scoringRes.ok && providerRes.ok) {
+      if (scoringRes.ok && providerRes.ok && embeddingRes.ok) {
         setMessage('Saved');
         setTimeout(() => setMessage(''), 2000);
+      } else if (!embeddingRes.ok) {
+        const data = await embeddingRes.json().catch(() => ({}));
+        setMessage(data.error || 'Error saving');
       } else {
         setMessage('Error saving');
       }
@@ -123,6 +148,48 @@ export default function ScoringSettings() {
         </div>
       </div>
 
+      <div className="space-y-2 mb-2">
+        <label className="text-sm text-foreground">Embedding Provider</label>
+        <div className="space-y-1.5">
+          {EMBEDDING_PROVIDERS.map(p => (
+            <label key={p.value} className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="embedding_provider"
+                value={p.value}
+                checked={embeddingProvider === p.value}
+                onChange={() => setEmbeddingProvider(p.value)}
+                className="accent-accent"
+              />
+              <span className="text-sm text-foreground">{p.label}</span>
+              <span className="text-xs text-muted">{p.description}</span>
+            </label>
+          ))}
+        </div>
+        {embeddingProvider === 'openai_compatible' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pt-1">
+            <input
+              type="url"
+              value={embeddingBaseUrl}
+              onChange={e => setEmbeddingBaseUrl(e.target.value)}
+              placeholder="Base URL, e.g. http://localhost:11434/v1"
+              className="px-3 py-1.5 rounded border border-card-border bg-background text-foreground placeholder:text-muted text-sm focus:outline-none focus:ring-1 focus:ring-accent"
+            />
+            <input
+              type="text"
+              value={embeddingModel}
+              onChange={e => setEmbeddingModel(e.target.value)}
+              placeholder="Model, e.g. nomic-embed-text"
+              className="px-3 py-1.5 rounded border border-card-border bg-background text-foreground placeholder:text-muted text-sm focus:outline-none focus:ring-1 focus:ring-accent"
+            />
+          </div>
+        )}
+        <p className="text-xs text-muted">
+          Vectors are only compared with vectors from the same model. After switching, interests and exclusions
+          are re-embedded on the next run; older articles keep LLM-only scoring until they age out.
+        </p>
+      </div>
+
       <hr className="border-card-border" />
 
       {loading ? (
@@ -181,6 +248,22 @@ export default function ScoringSettings() {
         </div>
       )}
 
+      <hr className="border-card-border" />
+
+      <h4 className="text-sm font-medium text-foreground">URL Deduplication</h4>
+      <p className="text-sm text-muted">
+        Query parameters stripped from article URLs at ingest so the same story from different feeds
+        dedupes to one link. Common trackers (utm_*, fbclid, gclid, rss, &hellip;) are always removed;
+        add more here, comma-separated. A trailing * matches by prefix.
+      </p>
+      <input
+        type="text"
+        value={values.tracking_param_blocklist ?? ''}
+        onChange={e => setValues(prev => ({ ...prev, tracking_param_blocklist: e.target.value }))}
+        placeholder="e.g. cid, partner_*"
+        className="w-full px-2 py-1 text-sm rounded border border-card-border bg-background text-foreground"
+      />
+
       <div className="flex items-center gap-3">
         <button
           onClick={handleSave}
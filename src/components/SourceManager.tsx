@@ -5,6 +5,7 @@ import SourceTrustIndicator from './SourceTrustIndicator';
 import SourceHealthIndicator from './SourceHealthIndicator';
 import SourcePageHeader from './SourcePageHeader';
 import AddSourcePreCheck from './AddSourcePreCheck';
+import SaveLinkForm from './SaveLinkForm';
 
 interface Source {
   id: string;
@@ -29,42 +30,22 @@ interface TrustData {
   sample_size: number;
 }
 
-interface OpmlFeed {
+type ImportStatus = 'added' | 'duplicate' | 'invalid' | 'limit_reached' | 'failed';
+
+interface ImportResult {
   name: string;
   url: string;
+  status: ImportStatus;
+  error?: string;
 }
 
-function parseOpml(xml: string): OpmlFeed[] {
-  // Sanitize unescaped & characters that break XML parsing (common in OPML exports)
-  const sanitized = xml.replace(/&(?!amp;|lt;|gt;|apos;|quot;|#\d+;|#x[\da-fA-F]+;)/g, '&amp;');
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(sanitized, 'text/xml');
-
-  // Check for XML parse errors
-  const parseError = doc.querySelector('parsererror');
-  if (parseError) {
-    throw new Error('Invalid XML');
-  }
-
-  const feeds: OpmlFeed[] = [];
-
-  const outlines = doc.querySelectorAll('outline[xmlUrl]');
-  for (const outline of outlines) {
-    const rawUrl = outline.getAttribute('xmlUrl');
-    const name = outline.getAttribute('title') || outline.getAttribute('text') || '';
-    if (rawUrl) {
-      const url = rawUrl.trim();
-      // Validate URL
-      try {
-        new URL(url);
-        feeds.push({ name: name.trim(), url });
-      } catch {
-        // Skip invalid URLs silently during parse — they'll never work as feeds
-      }
-    }
+function sourceSubtitle(source: Source): string {
+  if (source.type === 'manual_url') return 'Links you saved manually';
+  if (source.type === 'aggregator') {
+    const minPoints = Number(source.config.min_points);
+    return minPoints > 0 ? `Link aggregator \u00B7 only items with ${minPoints}+ points` : 'Link aggregator';
   }
-
-  return feeds;
+  return (source.config.url as string) || source.type;
 }
 
 interface SourceLimits {
@@ -117,82 +98,60 @@ export default function SourceManager() {
     fetchSources();
   }
 
+  async function toggleFullText(source: Source) {
+    await fetch(`/api/sources/${source.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config: { ...source.config, fetch_full_text: source.config.fetch_full_text !== true } }),
+    });
+    fetchSources();
+  }
+
   async function deleteSource(id: string) {
     await fetch(`/api/sources/${id}`, { method: 'DELETE' });
     fetchSources();
   }
 
-  const [importResults, setImportResults] = useState<Array<{ name: string; url: string; status: 'added' | 'duplicate' | 'failed'; error?: string }>>([]);
+  const [importResults, setImportResults] = useState<ImportResult[]>([]);
 
   async function handleOpmlImport(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
 
     setImporting(true);
-    setImportStatus(null);
+    setImportStatus('Checking feeds... this can take a minute for large files.');
     setImportResults([]);
     setImportHadAdds(false);
 
     try {
       const text = await file.text();
-      const feeds = parseOpml(text);
-
-      if (feeds.length === 0) {
-        setImportStatus('No feeds found in file.');
-        setImporting(false);
-        return;
-      }
-
-      setImportStatus(`Found ${feeds.length} feed${feeds.length !== 1 ? 's' : ''} in file. Importing...`);
-
-      const existingUrls = new Set(sources.map(s => (s.config.url as string)?.toLowerCase()));
-      const results: typeof importResults = [];
-
-      for (let i = 0; i < feeds.length; i++) {
-        const feed = feeds[i];
-        setImportStatus(`Processing ${i + 1} of ${feeds.length}: ${feed.name || feed.url}`);
-
-        if (existingUrls.has(feed.url.toLowerCase())) {
-          results.push({ name: feed.name, url: feed.url, status: 'duplicate' });
-          continue;
-        }
-
-        try {
-          const res = await fetch('/api/sources', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ name: feed.name, type: 'rss', config: { url: feed.url } }),
-          });
-          if (res.ok) {
-            results.push({ name: feed.name, url: feed.url, status: 'added' });
-            existingUrls.add(feed.url.toLowerCase());
-          } else {
-            const body = await res.json().catch(() => ({}));
-            results.push({ name: feed.name, url: feed.url, status: 'failed', error: body.error || `HTTP ${res.status}` });
-          }
-        } catch (err) {
-          results.push({ name: feed.name, url: feed.url, status: 'failed', error: String(err) });
+      const res = await fetch('/api/sources/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ opml: text }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setImportStatus(data.error || `Import failed (HTTP ${res.status})`);
+      } else {
+        setImportResults(data.results);
+
+        const parts = [`${data.total} feeds found`];
+        if (data.added > 0) parts.push(`${data.added} added`);
+        if (data.duplicates > 0) parts.push(`${data.duplicates} already existed`);
+        if (data.invalid > 0) parts.push(`${data.invalid} invalid`);
+        if (data.limit_reached > 0) parts.push(`${data.limit_reached} over limit`);
+        if (data.failed > 0) parts.push(`${data.failed} failed`);
+        setImportStatus(parts.join(' \u2022 '));
+
+        if (data.added > 0) {
+          setImportHadAdds(true);
+          fetchSources();
         }
       }
-
-      setImportResults(results);
-
-      const added = results.filter(r => r.status === 'added').length;
-      const dupes = results.filter(r => r.status === 'duplicate').length;
-      const failed = results.filter(r => r.status === 'failed').length;
-
-      const parts = [`${feeds.length} feeds found`];
-      if (added > 0) parts.push(`${added} added`);
-      if (dupes > 0) parts.push(`${dupes} already existed`);
-      if (failed > 0) parts.push(`${failed} failed`);
-      setImportStatus(parts.join(' \u2022 '));
-
-      if (added > 0) {
-        setImportHadAdds(true);
-        fetchSources();
-      }
     } catch {
-      setImportStatus('Failed to parse file. Make sure it\'s a valid OPML/XML file.');
+      setImportStatus('Import failed. Please try again.');
     }
 
     setImporting(false);
@@ -215,10 +174,12 @@ export default function SourceManager() {
         </p>
       )}
 
+      <SaveLinkForm onSaved={fetchSources} />
+
       <div className="p-4 rounded-lg bg-card border border-card-border space-y-2">
-        <p className="text-sm font-medium">Import from OPML</p>
+        <p className="text-sm font-medium">Import / export OPML</p>
         <p className="text-xs text-muted">
-          Import feeds from an OPML file exported from another RSS reader (e.g., Feedly, Inoreader, NetNewsWire).
+          Import feeds from an OPML file exported from another RSS reader (e.g., Feedly, Inoreader, NetNewsWire). Each feed is checked before it&apos;s added. Export your active feeds to move them elsewhere.
         </p>
         <div className="flex items-center gap-2 flex-wrap">
           <label className={`px-4 py-2 rounded text-sm shrink-0 cursor-pointer transition-opacity ${
@@ -233,6 +194,12 @@ export default function SourceManager() {
               className="hidden"
             />
           </label>
+          <button
+            onClick={() => { window.location.href = '/api/sources/export'; }}
+            className="px-4 py-2 rounded text-sm shrink-0 border border-card-border text-foreground hover:bg-card-border/30 transition-colors"
+          >
+            Export OPML
+          </button>
           {importStatus && (
             <p className="text-xs text-muted">{importStatus}</p>
           )}
@@ -243,14 +210,15 @@ export default function SourceManager() {
             {importResults.map((r, i) => (
               <div key={i} className="flex items-start gap-2 text-xs">
                 <span className={`shrink-0 mt-0.5 ${
-                  r.status === 'added' ? 'text-green-400' : r.status === 'duplicate' ? 'text-muted' : 'text-red-400'
+                  r.status === 'added' ? 'text-green-400' : r.status === 'duplicate' ? 'text-muted' : r.status === 'limit_reached' ? 'text-yellow-400' : 'text-red-400'
                 }`}>
                   {r.status === 'added' ? '\u2713' : r.status === 'duplicate' ? '\u2013' : '\u2717'}
                 </span>
                 <div className="min-w-0">
                   <span className="text-foreground">{r.name || r.url}</span>
                   {r.status === 'duplicate' && <span className="text-muted ml-1">(already exists)</span>}
-                  {r.status === 'failed' && <span className="text-red-400 ml-1">({r.error})</span>}
+                  {(r.status === 'failed' || r.status === 'invalid') && <span className="text-red-400 ml-1">({r.error})</span>}
+                  {r.status === 'limit_reached' && <span className="text-yellow-400 ml-1">(source limit reached)</span>}
                 </div>
               </div>
             ))}
@@ -277,9 +245,20 @@ export default function SourceManager() {
                     <p className="text-sm font-medium truncate">{source.name}</p>
                     {trust && <SourceTrustIndicator trustFactor={trust.trust_factor} sampleSize={trust.sample_size} />}
                   </div>
-                  <p className="text-xs text-muted truncate">{(source.config.url as string) || source.type}</p>
+                  <p className="text-xs text-muted truncate">{sourceSubtitle(source)}</p>
                 </div>
                 <div className="flex items-center gap-2 shrink-0">
+                  {!source.is_default && source.type !== 'manual_url' && (
+                    <button
+                      onClick={() => toggleFullText(source)}
+                      title="Download the article page when the feed only has a short snippet"
+                      className={`text-xs px-2 py-1 rounded ${
+                        source.config.fetch_full_text === true ? 'bg-accent-light text-accent' : 'bg-card-border text-muted'
+                      }`}
+                    >
+                      Full text {source.config.fetch_full_text === true ? 'on' : 'off'}
+                    </button>
+                  )}
                   <button
                     onClick={() => toggleSource(source.id, source.enabled)}
                     className="text-xs px-2 py-1 rounded bg-accent-light text-accent"
@@ -323,7 +302,7 @@ export default function SourceManager() {
               <div className="flex items-start justify-between gap-2">
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium truncate">{source.name}</p>
-                  <p className="text-xs text-muted truncate">{(source.config.url as string) || source.type}</p>
+                  <p className="text-xs text-muted truncate">{sourceSubtitle(source)}</p>
                 </div>
                 <div className="flex items-center gap-2 shrink-0">
                   <button
@@ -5,10 +5,15 @@ import { getUserById, getUserByUsername } from './db/users';
 import { sql } from '@vercel/postgres';
 import { getDb } from './db/index';
 import { config } from './config';
+import { touchApiToken } from './db/api-tokens';
+import type { ApiTokenScope } from '@/types';
 
 const SESSION_COOKIE = 'digest_session';
 const SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 const SESSION_REFRESH_THRESHOLD_MS = 3.5 * 24 * 60 * 60 * 1000; // 3.5 days
+const API_TOKEN_PREFIX = 'ktp_';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['digests:read', 'feedback:write', 'sources:manage'];
 
 let sessionSecretWarned = false;
 
@@ -148,6 +153,31 @@ export async function requireAuth(): Promise<string> {
   return userId;
 }
 
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(24).toString('hex');
+  return { token, hash: hashApiToken(token), prefix: token.slice(0, API_TOKEN_PREFIX.length + 8) };
+}
+
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Like requireAuth, but also accepts `Authorization: Bearer <personal access token>`.
+ * A token only authenticates if it carries `scope`; cookie sessions have every scope.
+ * Returns the user id, or null.
+ */
+export async function getUserIdFromRequest(request: Request, scope: ApiTokenScope): Promise<string | null> {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith(`Bearer ${API_TOKEN_PREFIX}`)) {
+    await getDb();
+    const token = await touchApiToken(hashApiToken(authHeader.slice('Bearer '.length).trim()));
+    if (!token || !token.scopes.includes(scope)) return null;
+    return token.user_id;
+  }
+  return getSessionFromCookies();
+}
+
 // For cron triggers: returns 'all_users' marker. For session auth: returns null (caller should use getSessionFromCookies).
 export async function requireCronOrAuth(request: Request): Promise<'all_users' | null> {
   const authHeader = request.headers.get('authorization');
@@ -5,7 +5,14 @@ export const config = {
   get cronSecret() { return process.env.CRON_SECRET || ''; },
   get sessionSecret() { return process.env.SESSION_SECRET || process.env.CRON_SECRET || 'default-secret'; },
   get minRelevanceScore() { return parseFloat(process.env.MIN_RELEVANCE_SCORE || '0.5'); },
+  get embeddingApiKey() { return process.env.EMBEDDING_API_KEY || ''; },
   get embeddingDimensions() { return parseInt(process.env.EMBEDDING_DIMENSIONS || '512', 10); },
+  get appUrl() { return (process.env.APP_URL || '').replace(/\/+$/, ''); },
+  get smtpHost() { return process.env.SMTP_HOST || ''; },
+  get smtpPort() { return parseInt(process.env.SMTP_PORT || '587', 10); },
+  get smtpUser() { return process.env.SMTP_USER || ''; },
+  get smtpPass() { return process.env.SMTP_PASS || ''; },
+  get smtpFrom() { return process.env.SMTP_FROM || process.env.SMTP_USER || ''; },
   claudeModel: 'claude-sonnet-4-20250514' as const,
   syntheticModel: 'hf:moonshotai/Kimi-K2.5',
   openaiModel: 'gpt-4o-mini' as const,
@@ -0,0 +1,50 @@
+import { sql } from '@vercel/postgres';
+import type { ApiToken, ApiTokenScope } from '@/types';
+
+const TOKEN_COLUMNS = 'id, user_id, name, token_prefix, scopes, created_at, last_used_at';
+
+export async function createApiToken(
+  userId: string,
+  name: string,
+  tokenHash: string,
+  tokenPrefix: string,
+  scopes: ApiTokenScope[]
+): Promise<ApiToken> {
+  const { rows } = await sql.query(
+    `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scopes)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${TOKEN_COLUMNS}`,
+    [userId, name, tokenHash, tokenPrefix, scopes]
+  );
+  return rows[0] as ApiToken;
+}
+
+export async function getApiTokensByUserId(userId: string): Promise<ApiToken[]> {
+  const { rows } = await sql.query(
+    `SELECT ${TOKEN_COLUMNS} FROM api_tokens WHERE user_id = $1 ORDER BY created_at DESC`,
+    [userId]
+  );
+  return rows as ApiToken[];
+}
+
+export async function getApiTokenCount(userId: string): Promise<number> {
+  const { rows } = await sql`SELECT COUNT(*)::int AS count FROM api_tokens WHERE user_id = ${userId}`;
+  return rows[0].count as number;
+}
+
+/** Look up an active user's token by hash, recording the use. */
+export async function touchApiToken(tokenHash: string): Promise<ApiToken | null> {
+  const { rows } = await sql.query(
+    `UPDATE api_tokens t SET last_used_at = NOW()
+     FROM users u
+     WHERE t.token_hash = $1 AND u.id = t.user_id AND u.is_active = TRUE
+     RETURNING t.id, t.user_id, t.name, t.token_prefix, t.scopes, t.created_at, t.last_used_at`,
+    [tokenHash]
+  );
+  return (rows[0] as ApiToken) ?? null;
+}
+
+export async function deleteApiToken(id: string, userId: string): Promise<boolean> {
+  const { rowCount } = await sql`DELETE FROM api_tokens WHERE id = ${id} AND user_id = ${userId}`;
+  return (rowCount ?? 0) > 0;
+}
@@ -4,8 +4,12 @@ import type { Article, RawArticle } from '@/types';
 export async function createArticle(article: RawArticle, provider: string = 'anthropic'): Promise<Article | null> {
   try {
     const { rows } = await sql`
-      INSERT INTO articles (source_id, external_id, title, url, raw_content, published_at, provider)
-      VALUES (${article.source_id}, ${article.external_id}, ${article.title}, ${article.url}, ${article.content}, ${article.published_at}, ${provider})
+      INSERT INTO articles (source_id, external_id, title, url, raw_content, published_at, provider, author,
+                            media_type, media_url, duration_seconds, thumbnail_url,
+                            points, comment_count, comments_url, canonical_url)
+      VALUES (${article.source_id}, ${article.external_id}, ${article.title}, ${article.url}, ${article.content}, ${article.published_at}, ${provider}, ${article.author ?? null},
+              ${article.media_type ?? null}, ${article.media_url ?? null}, ${article.duration_seconds ?? null}, ${article.thumbnail_url ?? null},
+              ${article.points ?? null}, ${article.comment_count ?? null}, ${article.comments_url ?? null}, ${article.canonical_url ?? null})
       RETURNING *
     `;
     return rows[0] as Article;
@@ -29,13 +33,40 @@ export async function getRecentArticleExternalIds(sourceId: string, provider: st
   return new Set(rows.map(r => r.external_id));
 }
 
-export async function markSemanticDuplicate(articleId: string, duplicateOfId: string): Promise<void> {
+/** Refresh the points / comment count of an aggregator article seen again on a later fetch. */
+export async function updateArticleSignals(
+  sourceId: string,
+  externalId: string,
+  provider: string,
+  points: number | null,
+  commentCount: number | null
+): Promise<void> {
   await sql`
-    UPDATE articles SET is_semantic_duplicate = TRUE, duplicate_of = ${duplicateOfId}
-    WHERE id = ${articleId}
+    UPDATE articles SET points = ${points}, comment_count = ${commentCount}
+    WHERE source_id = ${sourceId} AND external_id = ${externalId} AND provider = ${provider}
   `;
 }
 
+/** Articles ingested since `since` that have no embedding from `model` yet, oldest first */
+export async function getArticlesMissingEmbeddings(
+  since: string,
+  provider: string,
+  model: string,
+  limit: number
+): Promise<{ id: string; title: string; raw_content: string | null; source_type: string }[]> {
+  const { rows } = await sql.query(
+    `SELECT a.id, a.title, a.raw_content, s.type AS source_type
+     FROM articles a
+     JOIN sources s ON s.id = a.source_id
+     LEFT JOIN embeddings e ON e.ref_type = 'article' AND e.ref_id = a.id AND e.model = $3
+     WHERE a.ingested_at >= $1 AND a.provider = $2 AND e.id IS NULL
+     ORDER BY a.ingested_at ASC
+     LIMIT $4`,
+    [since, provider, model, limit]
+  );
+  return rows as { id: string; title: string; raw_content: string | null; source_type: string }[];
+}
+
 export async function clearArticlesByProvider(provider: string): Promise<void> {
   // Delete user_articles first (foreign key)
   await sql`
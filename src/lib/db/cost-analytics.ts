@@ -9,6 +9,12 @@ export interface CostRates {
   llm_output_per_million: number;
 }
 
+export const DEFAULT_COST_RATES: CostRates = {
+  embedding_per_million: 0.02,
+  llm_input_per_million: 0.15,
+  llm_output_per_million: 0.60,
+};
+
 export async function getCostRates(): Promise<CostRates> {
   const [emb, llmIn, llmOut] = await Promise.all([
     getGlobalSetting('cost_rate_embedding'),
@@ -16,9 +22,9 @@ export async function getCostRates(): Promise<CostRates> {
     getGlobalSetting('cost_rate_llm_output'),
   ]);
   return {
-    embedding_per_million: emb ? parseFloat(emb) : 0.02,
-    llm_input_per_million: llmIn ? parseFloat(llmIn) : 0.15,
-    llm_output_per_million: llmOut ? parseFloat(llmOut) : 0.60,
+    embedding_per_million: emb ? parseFloat(emb) : DEFAULT_COST_RATES.embedding_per_million,
+    llm_input_per_million: llmIn ? parseFloat(llmIn) : DEFAULT_COST_RATES.llm_input_per_million,
+    llm_output_per_million: llmOut ? parseFloat(llmOut) : DEFAULT_COST_RATES.llm_output_per_million,
   };
 }
 
@@ -34,6 +40,9 @@ export interface CostSummary {
   llm_input_tokens: number;
   llm_output_tokens: number;
   llm_cost: number;
+  llm_cache_hits: number;
+  llm_cache_misses: number;
+  llm_cache_hit_rate: number;
   total_cost: number;
   avg_cost_per_day: number;
   avg_cost_per_digest: number;
@@ -53,7 +62,15 @@ export async function getCostSummary(days: number, rates: CostRates): Promise<Co
       COALESCE(SUM(
         (SELECT COALESCE(SUM((value->>'llmOutputTokens')::int), 0)
          FROM jsonb_each(COALESCE(summary->'userResults', '{}'::jsonb)) AS kv(key, value))
-      ), 0) as llm_output_tokens
+      ), 0) as llm_output_tokens,
+      COALESCE(SUM(
+        (SELECT COALESCE(SUM((value->>'llmCacheHits')::int), 0)
+         FROM jsonb_each(COALESCE(summary->'userResults', '{}'::jsonb)) AS kv(key, value))
+      ), 0) as llm_cache_hits,
+      COALESCE(SUM(
+        (SELECT COALESCE(SUM((value->>'llmCacheMisses')::int), 0)
+         FROM jsonb_each(COALESCE(summary->'userResults', '{}'::jsonb)) AS kv(key, value))
+      ), 0) as llm_cache_misses
     FROM ingestion_logs
     WHERE status = 'success'
       AND started_at > NOW() - INTERVAL '1 day' * ${days}
@@ -88,6 +105,8 @@ export async function getCostSummary(days: number, rates: CostRates): Promise<Co
   const embTokens = parseInt(cur.embedding_tokens, 10);
   const llmInTokens = parseInt(cur.llm_input_tokens, 10);
   const llmOutTokens = parseInt(cur.llm_output_tokens, 10);
+  const cacheHits = parseInt(cur.llm_cache_hits, 10);
+  const cacheMisses = parseInt(cur.llm_cache_misses, 10);
 
   const embCost = tokenCost(embTokens, rates.embedding_per_million);
   const llmCost = tokenCost(llmInTokens, rates.llm_input_per_million) + tokenCost(llmOutTokens, rates.llm_output_per_million);
@@ -119,6 +138,9 @@ export async function getCostSummary(days: number, rates: CostRates): Promise<Co
     llm_input_tokens: llmInTokens,
     llm_output_tokens: llmOutTokens,
     llm_cost: parseFloat(llmCost.toFixed(4)),
+    llm_cache_hits: cacheHits,
+    llm_cache_misses: cacheMisses,
+    llm_cache_hit_rate: cacheHits + cacheMisses > 0 ? parseFloat((cacheHits / (cacheHits + cacheMisses)).toFixed(3)) : 0,
     total_cost: parseFloat(totalCost.toFixed(4)),
     avg_cost_per_day: parseFloat(avgPerDay.toFixed(4)),
     avg_cost_per_digest: parseFloat(avgPerDigest.toFixed(4)),
@@ -372,7 +394,15 @@ export async function getPipelineEfficiency(days: number, rates: CostRates): Pro
       COALESCE(SUM(
         (SELECT COALESCE(SUM((value->>'llmOutputTokens')::int), 0)
          FROM jsonb_each(COALESCE(summary->'userResults', '{}'::jsonb)) AS kv(key, value))
-      ), 0) as llm_output_tokens
+      ), 0) as llm_output_tokens,
+      COALESCE(SUM(
+        (SELECT COALESCE(SUM((value->>'llmCacheHits')::int), 0)
+         FROM jsonb_each(COALESCE(summary->'userResults', '{}'::jsonb)) AS kv(key, value))
+      ), 0) as llm_cache_hits,
+      COALESCE(SUM(
+        (SELECT COALESCE(SUM((value->>'llmCacheMisses')::int), 0)
+         FROM jsonb_each(COALESCE(summary->'userResults', '{}'::jsonb)) AS kv(key, value))
+      ), 0) as llm_cache_misses
     FROM ingestion_logs
     WHERE status = 'success'
       AND started_at > NOW() - INTERVAL '1 day' * ${days}
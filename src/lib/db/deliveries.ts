@@ -0,0 +1,70 @@
+import { sql } from '@vercel/postgres';
+import type { DigestDelivery, DeliveryChannel } from '@/types';
+
+/** Create the delivery row for a digest + channel, or return the existing one. */
+export async function createDelivery(
+  userId: string,
+  digestId: string,
+  channel: DeliveryChannel,
+  target: string
+): Promise<DigestDelivery> {
+  const { rows } = await sql`
+    INSERT INTO digest_deliveries (user_id, digest_id, channel, target)
+    VALUES (${userId}, ${digestId}, ${channel}, ${target})
+    ON CONFLICT (digest_id, channel) DO UPDATE SET target = digest_deliveries.target
+    RETURNING *
+  `;
+  return rows[0] as DigestDelivery;
+}
+
+export async function markDeliverySent(id: string, responseStatus: number | null): Promise<void> {
+  await sql`
+    UPDATE digest_deliveries SET
+      status = 'sent',
+      attempts = attempts + 1,
+      response_status = ${responseStatus},
+      last_error = NULL,
+      next_attempt_at = NULL,
+      delivered_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+/** Record a failed attempt. A null nextAttemptAt means no retries are left. */
+export async function markDeliveryFailed(
+  id: string,
+  error: string,
+  responseStatus: number | null,
+  nextAttemptAt: Date | null
+): Promise<void> {
+  const status = nextAttemptAt ? 'pending' : 'failed';
+  await sql`
+    UPDATE digest_deliveries SET
+      status = ${status},
+      attempts = attempts + 1,
+      response_status = ${responseStatus},
+      last_error = ${error},
+      next_attempt_at = ${nextAttemptAt ? nextAttemptAt.toISOString() : null}
+    WHERE id = ${id}
+  `;
+}
+
+export async function getDueDeliveries(limit: number = 50): Promise<DigestDelivery[]> {
+  const { rows } = await sql`
+    SELECT * FROM digest_deliveries
+    WHERE status = 'pending' AND next_attempt_at IS NOT NULL AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at ASC
+    LIMIT ${limit}
+  `;
+  return rows as DigestDelivery[];
+}
+
+export async function getRecentDeliveries(userId: string, limit: number = 20): Promise<DigestDelivery[]> {
+  const { rows } = await sql`
+    SELECT * FROM digest_deliveries
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+  return rows as DigestDelivery[];
+}
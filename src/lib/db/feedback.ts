@@ -41,6 +41,8 @@ export async function getRecentFeedbackWithArticles(userId: string, limit: numbe
 export async function getBookmarkedArticles(userId: string): Promise<UserArticleWithSource[]> {
   const { rows } = await sql`
     SELECT ua.*, a.title, a.url, a.raw_content, a.summary, a.provider, a.published_at, a.ingested_at, a.source_id,
+           a.media_type, a.media_url, a.duration_seconds, a.thumbnail_url,
+           a.points, a.comment_count, a.comments_url, a.cluster_id,
            s.name as source_name, s.type as source_type
     FROM user_articles ua
     JOIN articles a ON ua.article_id = a.id
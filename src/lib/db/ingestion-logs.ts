@@ -1,5 +1,6 @@
 import { sql } from '@vercel/postgres';
 import type { IngestionLog, LogEvent } from '@/types';
+import { releaseStaleIngestionRuns, getRunningIngestionRun } from './ingestion-runs';
 
 export async function createIngestionLog(
   userId: string,
@@ -30,12 +31,28 @@ export async function completeIngestionLog(
         finished_at = NOW(),
         duration_ms = ${durationMs},
         summary = ${summaryJson}::jsonb,
-        events = ${eventsJson}::jsonb,
+        events = COALESCE(events, '[]'::jsonb) || ${eventsJson}::jsonb,
         error = ${error ?? null}
     WHERE id = ${id}
   `;
 }
 
+/** Append events and refresh the summary of a log whose run continues in a later invocation. */
+export async function appendIngestionLogEvents(
+  id: string,
+  summary: Record<string, unknown> | undefined,
+  events: LogEvent[]
+): Promise<void> {
+  const summaryJson = summary ? JSON.stringify(summary) : null;
+  const eventsJson = JSON.stringify(events);
+  await sql`
+    UPDATE ingestion_logs
+    SET summary = COALESCE(${summaryJson}::jsonb, summary),
+        events = COALESCE(events, '[]'::jsonb) || ${eventsJson}::jsonb
+    WHERE id = ${id}
+  `;
+}
+
 export async function getIngestionLogs(
   userId: string,
   limit: number = 20
@@ -66,7 +83,14 @@ export async function getAllIngestionLogs(
   return rows as Omit<IngestionLog, 'events'>[];
 }
 
+/**
+ * Release abandoned run locks, then close out 'running' logs left behind by crashed runs.
+ * Logs are left alone while a live run holds the lock, since one of them is its own.
+ */
 export async function markStaleLogsAsTimedOut(): Promise<number> {
+  await releaseStaleIngestionRuns();
+  if (await getRunningIngestionRun()) return 0;
+
   const { rowCount } = await sql`
     UPDATE ingestion_logs
     SET status = 'error', finished_at = NOW(), error = 'Timed out (stale running state)'
@@ -75,6 +99,28 @@ export async function markStaleLogsAsTimedOut(): Promise<number> {
   return rowCount ?? 0;
 }
 
+export interface IngestionLogTail extends Pick<IngestionLog, 'status' | 'summary' | 'error' | 'duration_ms' | 'events'> {
+  /** Total events in the log, i.e. the offset to ask for next */
+  event_count: number;
+}
+
+/** Status plus the events after the first `offset`, for following a running log. */
+export async function getIngestionLogEventsSince(id: string, offset: number): Promise<IngestionLogTail | null> {
+  const { rows } = await sql`
+    SELECT status, summary, error, duration_ms,
+           jsonb_array_length(COALESCE(events, '[]'::jsonb)) AS event_count,
+           COALESCE((
+             SELECT jsonb_agg(e ORDER BY i)
+             FROM jsonb_array_elements(COALESCE(events, '[]'::jsonb)) WITH ORDINALITY AS t(e, i)
+             WHERE i > ${offset}
+           ), '[]'::jsonb) AS events
+    FROM ingestion_logs
+    WHERE id = ${id}
+  `;
+  if (!rows[0]) return null;
+  return { ...rows[0], event_count: Number(rows[0].event_count) } as IngestionLogTail;
+}
+
 export async function getIngestionLogById(id: string): Promise<IngestionLog | null> {
   const { rows } = await sql`
     SELECT * FROM ingestion_logs WHERE id = ${id}
@@ -0,0 +1,69 @@
+import { sql } from '@vercel/postgres';
+import type { IngestionRun, IngestionRunTrigger } from '@/types';
+
+// A run spans several invocations and only heartbeats while one of them is working on it.
+// Cron or scheduler ticks resume it well within this window; silence this long means nobody will.
+const RUN_STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+
+/** Insert a running row, or return null if another run already holds the lock. */
+export async function tryStartIngestionRun(
+  trigger: IngestionRunTrigger,
+  triggeredBy: string | null,
+  provider: string,
+  options: IngestionRun['options'] = {}
+): Promise<IngestionRun | null> {
+  const optionsJson = JSON.stringify(options);
+  const { rows } = await sql`
+    INSERT INTO ingestion_runs (trigger, triggered_by, provider, options)
+    VALUES (${trigger}, ${triggeredBy}, ${provider}, ${optionsJson}::jsonb)
+    ON CONFLICT DO NOTHING
+    RETURNING *
+  `;
+  return (rows[0] as IngestionRun) ?? null;
+}
+
+export async function getRunningIngestionRun(): Promise<IngestionRun | null> {
+  const { rows } = await sql`SELECT * FROM ingestion_runs WHERE status = 'running' LIMIT 1`;
+  return (rows[0] as IngestionRun) ?? null;
+}
+
+export async function getIngestionRunById(id: string): Promise<IngestionRun | null> {
+  const { rows } = await sql`SELECT * FROM ingestion_runs WHERE id = ${id}`;
+  return (rows[0] as IngestionRun) ?? null;
+}
+
+export async function heartbeatIngestionRun(id: string): Promise<void> {
+  await sql`UPDATE ingestion_runs SET heartbeat_at = NOW() WHERE id = ${id} AND status = 'running'`;
+}
+
+export async function setIngestionRunLog(id: string, logId: string): Promise<void> {
+  await sql`UPDATE ingestion_runs SET log_id = ${logId} WHERE id = ${id}`;
+}
+
+/** Close a running run; false if it was already closed (e.g. by a concurrent invocation). */
+export async function finishIngestionRun(id: string, status: 'success' | 'error', error?: string): Promise<boolean> {
+  const { rowCount } = await sql`
+    UPDATE ingestion_runs
+    SET status = ${status}, finished_at = NOW(), error = ${error ?? null}
+    WHERE id = ${id} AND status = 'running'
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+/** Abandon runs nobody has advanced in a long time, along with their unfinished jobs. */
+export async function releaseStaleIngestionRuns(staleAfterMs: number = RUN_STALE_AFTER_MS): Promise<number> {
+  const { rows } = await sql`
+    UPDATE ingestion_runs
+    SET status = 'timed_out', finished_at = NOW(), error = 'Timed out (no heartbeat)'
+    WHERE status = 'running' AND heartbeat_at < NOW() - INTERVAL '1 millisecond' * ${staleAfterMs}
+    RETURNING id
+  `;
+  for (const row of rows) {
+    await sql`
+      UPDATE pipeline_jobs
+      SET status = 'failed', error = 'Run timed out', finished_at = NOW(), updated_at = NOW()
+      WHERE run_id = ${row.id} AND status IN ('pending', 'running')
+    `;
+  }
+  return rows.length;
+}
@@ -0,0 +1,47 @@
+import { sql } from '@vercel/postgres';
+import type { InterestFeedbackVector } from '@/types';
+
+/** Learned offsets for a user's interests, keyed by interest id (only those learned in `model`). */
+export async function getInterestFeedbackOffsets(userId: string, model: string): Promise<Map<string, number[]>> {
+  const { rows } = await sql`
+    SELECT interest_id, offset_json FROM interest_feedback_vectors
+    WHERE user_id = ${userId} AND model = ${model}
+  `;
+  return new Map(rows.map(r => [r.interest_id, r.offset_json as number[]]));
+}
+
+export async function getInterestFeedbackVector(interestId: string): Promise<InterestFeedbackVector | null> {
+  const { rows } = await sql`SELECT * FROM interest_feedback_vectors WHERE interest_id = ${interestId}`;
+  return (rows[0] as InterestFeedbackVector) ?? null;
+}
+
+export async function getInterestFeedbackVectorsByUserId(userId: string): Promise<InterestFeedbackVector[]> {
+  const { rows } = await sql`SELECT * FROM interest_feedback_vectors WHERE user_id = ${userId}`;
+  return rows as InterestFeedbackVector[];
+}
+
+export async function saveInterestFeedbackVector(
+  userId: string,
+  interestId: string,
+  model: string,
+  offset: number[],
+  likedCount: number,
+  skippedCount: number
+): Promise<void> {
+  const offsetJson = JSON.stringify(offset);
+  await sql`
+    INSERT INTO interest_feedback_vectors (interest_id, user_id, model, offset_json, liked_count, skipped_count, updated_at)
+    VALUES (${interestId}, ${userId}, ${model}, ${offsetJson}::jsonb, ${likedCount}, ${skippedCount}, NOW())
+    ON CONFLICT (interest_id) DO UPDATE SET
+      model = ${model},
+      offset_json = ${offsetJson}::jsonb,
+      liked_count = ${likedCount},
+      skipped_count = ${skippedCount},
+      updated_at = NOW()
+  `;
+}
+
+export async function deleteInterestFeedbackVector(interestId: string): Promise<boolean> {
+  const { rowCount } = await sql`DELETE FROM interest_feedback_vectors WHERE interest_id = ${interestId}`;
+  return (rowCount ?? 0) > 0;
+}
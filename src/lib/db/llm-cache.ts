@@ -0,0 +1,44 @@
+import { sql } from '@vercel/postgres';
+
+export interface CachedLlmResponse {
+  response_text: string;
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+}
+
+/** Unexpired cached response for this key, counting the hit. */
+export async function getCachedLlmResponse(cacheKey: string): Promise<CachedLlmResponse | null> {
+  const { rows } = await sql`
+    UPDATE llm_cache
+    SET hit_count = hit_count + 1, last_hit_at = NOW()
+    WHERE cache_key = ${cacheKey} AND expires_at > NOW()
+    RETURNING response_text, usage
+  `;
+  return (rows[0] as CachedLlmResponse) ?? null;
+}
+
+export async function setCachedLlmResponse(
+  cacheKey: string,
+  provider: string,
+  model: string,
+  responseText: string,
+  usage: CachedLlmResponse['usage'],
+  ttlMs: number
+): Promise<void> {
+  const usageJson = usage ? JSON.stringify(usage) : null;
+  await sql`
+    INSERT INTO llm_cache (cache_key, provider, model, response_text, usage, expires_at)
+    VALUES (${cacheKey}, ${provider}, ${model}, ${responseText}, ${usageJson}::jsonb, NOW() + INTERVAL '1 millisecond' * ${ttlMs})
+    ON CONFLICT (cache_key) DO UPDATE
+    SET response_text = EXCLUDED.response_text,
+        usage = EXCLUDED.usage,
+        hit_count = 0,
+        created_at = NOW(),
+        last_hit_at = NULL,
+        expires_at = EXCLUDED.expires_at
+  `;
+}
+
+export async function deleteExpiredLlmCache(): Promise<number> {
+  const { rowCount } = await sql`DELETE FROM llm_cache WHERE expires_at <= NOW()`;
+  return rowCount ?? 0;
+}
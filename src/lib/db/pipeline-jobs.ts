@@ -0,0 +1,120 @@
+import { sql } from '@vercel/postgres';
+import type { PipelineJob, PipelineStage } from '@/types';
+
+export interface NewPipelineJob {
+  stage: PipelineStage;
+  stageOrder: number;
+  userId: string | null;
+}
+
+/**
+ * Queue jobs for a run. Jobs the run already has are left as they are, unless `reopenFinished`
+ * is set: then a job that already finished (done or failed) goes back to pending, so a user who
+ * joins a run after their jobs in it ran still gets scored and a digest.
+ */
+export async function createPipelineJobs(
+  runId: string,
+  jobs: NewPipelineJob[],
+  { reopenFinished = false }: { reopenFinished?: boolean } = {}
+): Promise<number> {
+  let created = 0;
+  for (const job of jobs) {
+    const { rowCount } = reopenFinished
+      ? await sql`
+          INSERT INTO pipeline_jobs (run_id, stage, stage_order, user_id)
+          VALUES (${runId}, ${job.stage}, ${job.stageOrder}, ${job.userId})
+          ON CONFLICT (run_id, stage, COALESCE(user_id, '')) DO UPDATE
+          SET status = 'pending', attempts = 0, state = '{}', error = NULL,
+              lease_until = NULL, finished_at = NULL, updated_at = NOW()
+          WHERE pipeline_jobs.status IN ('done', 'failed')
+        `
+      : await sql`
+          INSERT INTO pipeline_jobs (run_id, stage, stage_order, user_id)
+          VALUES (${runId}, ${job.stage}, ${job.stageOrder}, ${job.userId})
+          ON CONFLICT DO NOTHING
+        `;
+    created += rowCount ?? 0;
+  }
+  return created;
+}
+
+/**
+ * Lease the next runnable job. A job is runnable once no earlier-stage job that it depends on
+ * is unfinished — global jobs wait for everything before them, user jobs for earlier global
+ * jobs and their own user's. Running jobs whose lease ran out (their invocation died) are
+ * picked up again until they have used up their attempts.
+ */
+export async function claimPipelineJob(runId: string, leaseMs: number, maxAttempts: number): Promise<PipelineJob | null> {
+  await sql`
+    UPDATE pipeline_jobs
+    SET status = 'failed', error = 'Gave up after ' || attempts || ' attempts', finished_at = NOW(), updated_at = NOW()
+    WHERE run_id = ${runId} AND status = 'running' AND lease_until < NOW() AND attempts >= ${maxAttempts}
+  `;
+
+  const { rows } = await sql`
+    UPDATE pipeline_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        lease_until = NOW() + INTERVAL '1 millisecond' * ${leaseMs},
+        updated_at = NOW()
+    WHERE id = (
+      SELECT j.id FROM pipeline_jobs j
+      WHERE j.run_id = ${runId}
+        AND (j.status = 'pending' OR (j.status = 'running' AND j.lease_until < NOW()))
+        AND NOT EXISTS (
+          SELECT 1 FROM pipeline_jobs d
+          WHERE d.run_id = j.run_id
+            AND d.status IN ('pending', 'running')
+            AND d.stage_order < j.stage_order
+            AND (d.user_id IS NULL OR j.user_id IS NULL OR d.user_id = j.user_id)
+        )
+      ORDER BY j.stage_order, j.created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return (rows[0] as PipelineJob) ?? null;
+}
+
+/** Save progress on a job that has more to do and hand it back to the queue. */
+export async function checkpointPipelineJob(
+  id: string,
+  state: Record<string, unknown>,
+  result: Record<string, unknown>
+): Promise<void> {
+  const stateJson = JSON.stringify(state);
+  const resultJson = JSON.stringify(result);
+  // A slice that made progress earns its attempts back
+  await sql`
+    UPDATE pipeline_jobs
+    SET status = 'pending', attempts = 0, lease_until = NULL,
+        state = ${stateJson}::jsonb, result = ${resultJson}::jsonb, updated_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+export async function completePipelineJob(id: string, result: Record<string, unknown>): Promise<void> {
+  const resultJson = JSON.stringify(result);
+  await sql`
+    UPDATE pipeline_jobs
+    SET status = 'done', lease_until = NULL, result = ${resultJson}::jsonb,
+        finished_at = NOW(), updated_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+export async function failPipelineJob(id: string, error: string): Promise<void> {
+  await sql`
+    UPDATE pipeline_jobs
+    SET status = 'failed', lease_until = NULL, error = ${error}, finished_at = NOW(), updated_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+export async function getPipelineJobs(runId: string): Promise<PipelineJob[]> {
+  const { rows } = await sql`
+    SELECT * FROM pipeline_jobs WHERE run_id = ${runId} ORDER BY stage_order, created_at
+  `;
+  return rows as PipelineJob[];
+}
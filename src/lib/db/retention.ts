@@ -1,4 +1,6 @@
 import { sql } from '@vercel/postgres';
+import { deleteEmptyStoryClusters } from './story-clusters';
+import { deleteExpiredLlmCache } from './llm-cache';
 
 const RETENTION_INGESTION_LOGS_DAYS = 30;
 const RETENTION_FEEDBACK_DAYS = 90;
@@ -8,6 +10,7 @@ const RETENTION_DISMISSED_SUGGESTIONS_DAYS = 30;
 
 export interface RetentionResult {
   ingestion_logs_deleted: number;
+  ingestion_runs_deleted: number;
   feedback_deleted: number;
   user_articles_detached: number;
   user_articles_deleted: number;
@@ -15,12 +18,15 @@ export interface RetentionResult {
   digests_deleted: number;
   orphan_articles_deleted: number;
   orphan_embeddings_deleted: number;
+  empty_story_clusters_deleted: number;
   dismissed_suggestions_deleted: number;
+  llm_cache_expired: number;
 }
 
 export async function runRetention(): Promise<RetentionResult> {
   const result: RetentionResult = {
     ingestion_logs_deleted: 0,
+    ingestion_runs_deleted: 0,
     feedback_deleted: 0,
     user_articles_detached: 0,
     user_articles_deleted: 0,
@@ -28,7 +34,9 @@ export async function runRetention(): Promise<RetentionResult> {
     digests_deleted: 0,
     orphan_articles_deleted: 0,
     orphan_embeddings_deleted: 0,
+    empty_story_clusters_deleted: 0,
     dismissed_suggestions_deleted: 0,
+    llm_cache_expired: 0,
   };
 
   // 1. Ingestion logs — DELETE where started_at older than 30 days
@@ -38,6 +46,13 @@ export async function runRetention(): Promise<RetentionResult> {
   `;
   result.ingestion_logs_deleted = logsDeleted ?? 0;
 
+  // 1b. Finished ingestion runs (the run lock history) — same window as logs
+  const { rowCount: runsDeleted } = await sql`
+    DELETE FROM ingestion_runs
+    WHERE status <> 'running' AND started_at < NOW() - INTERVAL '1 day' * ${RETENTION_INGESTION_LOGS_DAYS}
+  `;
+  result.ingestion_runs_deleted = runsDeleted ?? 0;
+
   // 2. Feedback — DELETE where created_at older than 90 days
   const { rowCount: feedbackDeleted } = await sql`
     DELETE FROM feedback
@@ -80,6 +95,7 @@ export async function runRetention(): Promise<RetentionResult> {
         relevance_reason = NULL,
         is_serendipity = FALSE,
         embedding_score = NULL,
+        score_breakdown = NULL,
         digest_tier = NULL,
         scored_at = NULL
     WHERE digest_id IS NULL
@@ -122,6 +138,9 @@ export async function runRetention(): Promise<RetentionResult> {
   `;
   result.orphan_embeddings_deleted = orphanEmb ?? 0;
 
+  // 4e. DELETE story clusters left without articles
+  result.empty_story_clusters_deleted = await deleteEmptyStoryClusters();
+
   // 5. Dismissed suggestions — DELETE where status='dismissed' AND >30 days old
   const { rowCount: suggestionsDeleted } = await sql`
     DELETE FROM interest_suggestions
@@ -130,5 +149,8 @@ export async function runRetention(): Promise<RetentionResult> {
   `;
   result.dismissed_suggestions_deleted = suggestionsDeleted ?? 0;
 
+  // 6. LLM cache — DELETE entries past their TTL
+  result.llm_cache_expired = await deleteExpiredLlmCache();
+
   return result;
 }
@@ -19,7 +19,7 @@ export async function ensureSchema(): Promise<void> {
       id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
       user_id TEXT NOT NULL REFERENCES users(id),
       name TEXT NOT NULL,
-      type TEXT NOT NULL CHECK (type IN ('rss', 'manual_url')),
+      type TEXT NOT NULL CHECK (type IN ('rss', 'json_feed', 'aggregator', 'manual_url')),
       config JSONB NOT NULL DEFAULT '{}',
       enabled BOOLEAN DEFAULT TRUE,
       is_default BOOLEAN DEFAULT FALSE,
@@ -217,6 +217,20 @@ export async function ensureSchema(): Promise<void> {
     )
   `;
 
+  // Per-interest offsets learned from likes/skips, added to the interest vector in stage 1
+  await sql`
+    CREATE TABLE IF NOT EXISTS interest_feedback_vectors (
+      interest_id TEXT PRIMARY KEY REFERENCES interests(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      model TEXT NOT NULL,
+      offset_json JSONB NOT NULL,
+      liked_count INTEGER DEFAULT 0,
+      skipped_count INTEGER DEFAULT 0,
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_interest_feedback_vectors_user ON interest_feedback_vectors(user_id)`;
+
   // Embeddings table — try pgvector first, fall back to JSONB
   await ensureEmbeddingsTable();
 
@@ -234,6 +248,11 @@ export async function ensureSchema(): Promise<void> {
     await sql`ALTER TABLE user_articles ADD COLUMN IF NOT EXISTS digest_tier TEXT CHECK (digest_tier IN ('recommended', 'serendipity', 'bonus'))`;
   } catch { /* columns may already exist */ }
 
+  // Per-interest similarities, exclusion hits and trust behind embedding_score ("Why am I seeing this?")
+  try {
+    await sql`ALTER TABLE user_articles ADD COLUMN IF NOT EXISTS score_breakdown JSONB`;
+  } catch { /* column may already exist */ }
+
   // Add semantic dedup columns to articles
   try {
     await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS is_semantic_duplicate BOOLEAN DEFAULT FALSE`;
@@ -259,6 +278,169 @@ export async function ensureSchema(): Promise<void> {
     await sql`ALTER TABLE sources ADD COLUMN IF NOT EXISTS consecutive_errors INTEGER DEFAULT 0`;
     await sql`ALTER TABLE sources ADD COLUMN IF NOT EXISTS articles_14d INTEGER DEFAULT 0`;
   } catch { /* columns may already exist */ }
+
+  // Add conditional GET validators (ETag / Last-Modified) to sources
+  try {
+    await sql`ALTER TABLE sources ADD COLUMN IF NOT EXISTS etag TEXT`;
+    await sql`ALTER TABLE sources ADD COLUMN IF NOT EXISTS last_modified TEXT`;
+  } catch { /* columns may already exist */ }
+
+  // Add adaptive fetch scheduling to sources
+  try {
+    await sql`ALTER TABLE sources ADD COLUMN IF NOT EXISTS next_fetch_at TIMESTAMPTZ`;
+  } catch { /* column may already exist */ }
+
+  // Allow JSON Feed and link aggregator sources
+  try {
+    await sql`ALTER TABLE sources DROP CONSTRAINT IF EXISTS sources_type_check`;
+    await sql`ALTER TABLE sources ADD CONSTRAINT sources_type_check CHECK (type IN ('rss', 'json_feed', 'aggregator', 'manual_url'))`;
+  } catch { /* constraint may already be updated */ }
+
+  // Add byline to articles (extracted from manually saved pages)
+  try {
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS author TEXT`;
+  } catch { /* column may already exist */ }
+
+  // Add podcast/video media metadata to articles
+  try {
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS media_type TEXT CHECK (media_type IN ('audio', 'video'))`;
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS media_url TEXT`;
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS duration_seconds INTEGER`;
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS thumbnail_url TEXT`;
+  } catch { /* columns may already exist */ }
+
+  // Add popularity signals from link aggregators (Hacker News, Lobsters)
+  try {
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS points INTEGER`;
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS comment_count INTEGER`;
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS comments_url TEXT`;
+  } catch { /* columns may already exist */ }
+
+  // Add canonical URL (redirects unwrapped, tracking params stripped) for cross-source dedup.
+  // articles.url keeps the link as published in the feed.
+  try {
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS canonical_url TEXT`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_articles_canonical_url ON articles(canonical_url)`;
+  } catch { /* column may already exist */ }
+
+  // Story clusters: articles from different sources about the same story, matched by
+  // embedding similarity across ingestion runs
+  await sql`
+    CREATE TABLE IF NOT EXISTS story_clusters (
+      id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+      lead_article_id TEXT REFERENCES articles(id) ON DELETE SET NULL,
+      article_count INTEGER DEFAULT 1,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `;
+
+  try {
+    await sql`ALTER TABLE articles ADD COLUMN IF NOT EXISTS cluster_id TEXT REFERENCES story_clusters(id) ON DELETE SET NULL`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_articles_cluster_id ON articles(cluster_id)`;
+  } catch { /* column may already exist */ }
+
+  // Digest push deliveries (webhook / email) with retry state
+  await sql`
+    CREATE TABLE IF NOT EXISTS digest_deliveries (
+      id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      digest_id TEXT NOT NULL REFERENCES digests(id) ON DELETE CASCADE,
+      channel TEXT NOT NULL CHECK (channel IN ('webhook', 'email')),
+      target TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+      attempts INTEGER DEFAULT 0,
+      last_error TEXT,
+      response_status INTEGER,
+      next_attempt_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      delivered_at TIMESTAMPTZ,
+      UNIQUE(digest_id, channel)
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_digest_deliveries_user ON digest_deliveries(user_id, created_at DESC)`;
+
+  // Secret token for the user's read-only Atom feed of their digests
+  try {
+    await sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS feed_token TEXT`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_users_feed_token ON users(feed_token)`;
+  } catch { /* column may already exist */ }
+
+  // Personal access tokens for the Bearer-authenticated API (only the SHA-256 hash is stored)
+  await sql`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      name TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      token_prefix TEXT NOT NULL,
+      scopes TEXT[] NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_used_at TIMESTAMPTZ
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id)`;
+
+  // Cached LLM completions for callers that opt in, keyed by a hash of provider + model + prompt
+  await sql`
+    CREATE TABLE IF NOT EXISTS llm_cache (
+      cache_key TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      response_text TEXT NOT NULL,
+      usage JSONB,
+      hit_count INTEGER DEFAULT 0,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_hit_at TIMESTAMPTZ,
+      expires_at TIMESTAMPTZ NOT NULL
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_llm_cache_expires ON llm_cache(expires_at)`;
+
+  // Pipeline run lock: at most one 'running' row, kept alive by a heartbeat
+  await sql`
+    CREATE TABLE IF NOT EXISTS ingestion_runs (
+      id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+      trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual', 'scheduler')),
+      triggered_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+      log_id TEXT REFERENCES ingestion_logs(id) ON DELETE SET NULL,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error', 'timed_out')),
+      started_at TIMESTAMPTZ DEFAULT NOW(),
+      heartbeat_at TIMESTAMPTZ DEFAULT NOW(),
+      finished_at TIMESTAMPTZ,
+      error TEXT
+    )
+  `;
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_ingestion_runs_single_running ON ingestion_runs(status) WHERE status = 'running'`;
+
+  // Runs now span several invocations, so they remember how they were started
+  try {
+    await sql`ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS provider TEXT`;
+    await sql`ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS options JSONB DEFAULT '{}'`;
+  } catch { /* columns may already exist */ }
+
+  // Work queue for a run's stages. A job only starts once every unfinished job of an earlier
+  // stage for the same user (or for all users) is done, and checkpoints its state between slices.
+  await sql`
+    CREATE TABLE IF NOT EXISTS pipeline_jobs (
+      id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+      run_id TEXT NOT NULL REFERENCES ingestion_runs(id) ON DELETE CASCADE,
+      stage TEXT NOT NULL CHECK (stage IN ('fetch', 'embed', 'score', 'digest', 'weekly', 'cleanup')),
+      stage_order INTEGER NOT NULL,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'done', 'failed')),
+      attempts INTEGER DEFAULT 0,
+      state JSONB DEFAULT '{}',
+      result JSONB DEFAULT '{}',
+      error TEXT,
+      lease_until TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      finished_at TIMESTAMPTZ
+    )
+  `;
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_jobs_unique ON pipeline_jobs(run_id, stage, COALESCE(user_id, ''))`;
+  await sql`CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_run ON pipeline_jobs(run_id, status)`;
 }
 
 async function ensureEmbeddingsTable(): Promise<void> {
@@ -290,9 +472,22 @@ async function ensureEmbeddingsTable(): Promise<void> {
       const dims = config.embeddingDimensions;
       await sql.query(`ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS embedding VECTOR(${dims})`);
     } catch { /* column may already exist */ }
+
+    // Stage 1 compares a run's articles with every interest exactly (findArticleSimilarities),
+    // which an approximate nearest-neighbour index can't serve; drop the one earlier builds created
+    try {
+      await sql`DROP INDEX IF EXISTS idx_embeddings_vector`;
+    } catch { /* nothing to drop */ }
   }
 
   try {
     await sql`CREATE INDEX IF NOT EXISTS idx_embeddings_ref ON embeddings(ref_type, ref_id)`;
   } catch { /* index may already exist */ }
+
+  // Model id per vector, so vectors from different embedding models are never compared.
+  // Rows from before the column existed all came from OpenAI text-embedding-3-small.
+  try {
+    await sql`ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS model TEXT`;
+    await sql`UPDATE embeddings SET model = 'text-embedding-3-small' WHERE model IS NULL`;
+  } catch { /* column may already exist */ }
 }
@@ -35,3 +35,11 @@ export async function getSchedule(userId: string): Promise<string[]> {
 export async function setSchedule(userId: string, times: string[]): Promise<void> {
   await setSetting(userId, 'digest_times', JSON.stringify(times));
 }
+
+export async function getTimezone(userId: string): Promise<string> {
+  return (await getSetting(userId, 'timezone')) || 'UTC';
+}
+
+export async function setTimezone(userId: string, timezone: string): Promise<void> {
+  await setSetting(userId, 'timezone', timezone);
+}
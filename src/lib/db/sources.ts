@@ -1,5 +1,6 @@
 import { sql } from '@vercel/postgres';
 import type { Source, UserSourceSetting } from '@/types';
+import type { FeedCacheHeaders } from '../ingestion/rss';
 
 function parseSource(row: Record<string, unknown>): Source {
   return {
@@ -68,12 +69,14 @@ export async function getEnabledSourcesForUser(userId: string): Promise<Source[]
   return [...defaultRows, ...privateRows].map(parseSource);
 }
 
-// All fetchable sources across all users (for ingestion)
+// All fetchable sources across all users (for ingestion).
+// manual_url sources are filled on demand when a user saves a link, never polled.
 export async function getAllFetchableSources(): Promise<Source[]> {
   const { rows } = await sql`
     SELECT DISTINCT s.*
     FROM sources s
     WHERE s.enabled = TRUE
+      AND s.type <> 'manual_url'
       AND (
         s.is_default = TRUE
         OR EXISTS (SELECT 1 FROM users u WHERE u.id = s.user_id AND u.is_active = TRUE)
@@ -82,6 +85,18 @@ export async function getAllFetchableSources(): Promise<Source[]> {
   return rows.map(parseSource);
 }
 
+// Each user has a single private "Saved links" source holding their manually saved URLs
+export async function getOrCreateManualSource(userId: string): Promise<Source> {
+  const { rows } = await sql`
+    SELECT * FROM sources
+    WHERE user_id = ${userId} AND type = 'manual_url' AND is_default = FALSE
+    ORDER BY created_at
+    LIMIT 1
+  `;
+  if (rows[0]) return parseSource(rows[0]);
+  return createSource(userId, 'Saved links', 'manual_url', {});
+}
+
 export async function getSourceById(id: string): Promise<Source | null> {
   const { rows } = await sql`SELECT * FROM sources WHERE id = ${id}`;
   if (rows.length === 0) return null;
@@ -96,7 +111,11 @@ export async function updateSource(id: string, updates: Partial<Pick<Source, 'na
     await sql`UPDATE sources SET type = ${updates.type} WHERE id = ${id}`;
   }
   if (updates.config !== undefined) {
-    await sql`UPDATE sources SET config = ${JSON.stringify(updates.config)} WHERE id = ${id}`;
+    // A new URL invalidates the cached ETag / Last-Modified validators and the fetch schedule
+    await sql`
+      UPDATE sources SET config = ${JSON.stringify(updates.config)}, etag = NULL, last_modified = NULL, next_fetch_at = NULL
+      WHERE id = ${id}
+    `;
   }
   if (updates.enabled !== undefined) {
     await sql`UPDATE sources SET enabled = ${updates.enabled} WHERE id = ${id}`;
@@ -140,7 +159,8 @@ export async function updateSourceFetchStatus(
   id: string,
   error: string | null,
   fetchStatus?: string,
-  newArticleCount?: number
+  newArticleCount?: number,
+  cacheHeaders?: FeedCacheHeaders
 ): Promise<void> {
   // Compute articles_14d and latest article timestamp from actual data
   const { rows: statsRows } = await sql`
@@ -178,9 +198,33 @@ export async function updateSourceFetchStatus(
         articles_14d = ${articles14d}
       WHERE id = ${id}
     `;
+
+    // Only replace validators on a full (200) response — a 304 keeps the ones we sent
+    if (cacheHeaders) {
+      await sql`
+        UPDATE sources SET etag = ${cacheHeaders.etag}, last_modified = ${cacheHeaders.lastModified}
+        WHERE id = ${id}
+      `;
+    }
   }
 }
 
+/**
+ * Forget every feed's conditional GET validators. Articles are stored per LLM provider, so after a
+ * provider switch feeds must be downloaded in full once, or a 304 would hide their existing items.
+ */
+export async function clearSourceCacheHeaders(): Promise<number> {
+  const { rowCount } = await sql`
+    UPDATE sources SET etag = NULL, last_modified = NULL
+    WHERE etag IS NOT NULL OR last_modified IS NOT NULL
+  `;
+  return rowCount ?? 0;
+}
+
+export async function setSourceNextFetchAt(id: string, nextFetchAt: Date): Promise<void> {
+  await sql`UPDATE sources SET next_fetch_at = ${nextFetchAt.toISOString()} WHERE id = ${id}`;
+}
+
 // Legacy — used by old routes. Kept for backward-compat during migration.
 export async function getSourcesByUserId(userId: string): Promise<Source[]> {
   return getSourcesForUser(userId);
@@ -0,0 +1,100 @@
+import { sql } from '@vercel/postgres';
+import type { StoryAlternate } from '@/types';
+
+export interface ClusterCandidate {
+  id: string;
+  title: string;
+  cluster_id: string | null;
+}
+
+/**
+ * Recently ingested feed articles that new articles can be clustered with, newest first.
+ * Saved links are left out — they always stay their own card.
+ */
+export async function getClusterCandidates(
+  provider: string,
+  excludeIds: string[],
+  windowHours: number,
+  limit: number
+): Promise<ClusterCandidate[]> {
+  const { rows } = await sql.query(
+    `SELECT a.id, a.title, a.cluster_id
+     FROM articles a
+     JOIN sources s ON a.source_id = s.id
+     WHERE a.provider = $1
+       AND s.type <> 'manual_url'
+       AND a.ingested_at > NOW() - INTERVAL '1 hour' * $2
+       AND NOT (a.id = ANY($3))
+     ORDER BY a.ingested_at DESC
+     LIMIT $4`,
+    [provider, windowHours, excludeIds, limit]
+  );
+  return rows as ClusterCandidate[];
+}
+
+/** Start a cluster led by an existing article. Returns the new cluster id. */
+export async function createStoryCluster(leadArticleId: string): Promise<string> {
+  const { rows } = await sql`
+    INSERT INTO story_clusters (lead_article_id) VALUES (${leadArticleId})
+    RETURNING id
+  `;
+  const clusterId = rows[0].id as string;
+  await sql`UPDATE articles SET cluster_id = ${clusterId} WHERE id = ${leadArticleId}`;
+  return clusterId;
+}
+
+export async function addArticleToCluster(articleId: string, clusterId: string): Promise<void> {
+  await sql`UPDATE articles SET cluster_id = ${clusterId} WHERE id = ${articleId}`;
+  await sql`
+    UPDATE story_clusters SET article_count = article_count + 1, updated_at = NOW()
+    WHERE id = ${clusterId}
+  `;
+}
+
+/**
+ * For each article, the other members of its story cluster that come from sources the
+ * user reads (enabled defaults they haven't opted out of, plus their own sources).
+ * Members from the article's own source are skipped.
+ */
+export async function getStoryAlternates(
+  userId: string,
+  articleIds: string[]
+): Promise<Map<string, StoryAlternate[]>> {
+  const result = new Map<string, StoryAlternate[]>();
+  if (articleIds.length === 0) return result;
+
+  const { rows } = await sql.query(
+    `SELECT a.id as for_article_id, b.id as article_id, b.title, b.url, s.name as source_name
+     FROM articles a
+     JOIN articles b ON b.cluster_id = a.cluster_id AND b.id <> a.id AND b.source_id <> a.source_id
+     JOIN sources s ON b.source_id = s.id
+     WHERE a.id = ANY($2)
+       AND a.cluster_id IS NOT NULL
+       AND s.type <> 'manual_url'
+       AND (
+         (s.is_default = TRUE AND s.enabled = TRUE AND NOT EXISTS (
+           SELECT 1 FROM user_source_settings uss
+           WHERE uss.source_id = s.id AND uss.user_id = $1 AND uss.enabled = FALSE
+         ))
+         OR (s.user_id = $1 AND s.is_default = FALSE)
+       )
+     ORDER BY b.ingested_at ASC`,
+    [userId, articleIds]
+  );
+
+  for (const row of rows) {
+    const list = result.get(row.for_article_id) ?? [];
+    list.push({ article_id: row.article_id, title: row.title, url: row.url, source_name: row.source_name });
+    result.set(row.for_article_id, list);
+  }
+  return result;
+}
+
+/** Remove clusters whose articles have all been deleted by retention. */
+export async function deleteEmptyStoryClusters(): Promise<number> {
+  const { rowCount } = await sql`
+    DELETE FROM story_clusters c
+    WHERE NOT EXISTS (SELECT 1 FROM articles a WHERE a.cluster_id = c.id)
+  `;
+  return rowCount ?? 0;
+}
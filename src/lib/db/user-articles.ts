@@ -1,5 +1,6 @@
 import { sql } from '@vercel/postgres';
-import type { UserArticleWithSource, ArticleEngagementState, Sentiment, DigestTier } from '@/types';
+import type { UserArticleWithSource, ArticleEngagementState, Sentiment, DigestTier, ScoreBreakdown } from '@/types';
+import { getStoryAlternates } from './story-clusters';
 
 export async function getUserArticlesByDigestId(
   userId: string,
@@ -14,6 +15,8 @@ export async function getUserArticlesByDigestId(
     if (tiers) {
       const { rows } = await sql.query(
         `SELECT ua.*, a.title, a.url, a.raw_content, a.summary, a.provider, a.published_at, a.ingested_at, a.source_id,
+                a.media_type, a.media_url, a.duration_seconds, a.thumbnail_url,
+                a.points, a.comment_count, a.comments_url, a.cluster_id,
                 s.name as source_name, s.type as source_type
          FROM user_articles ua
          JOIN articles a ON ua.article_id = a.id
@@ -22,10 +25,12 @@ export async function getUserArticlesByDigestId(
          ORDER BY ua.relevance_score DESC`,
         [userId, digestId, tiers]
       );
-      return rows as UserArticleWithSource[];
+      return withStoryAlternates(userId, rows as UserArticleWithSource[]);
     }
     const { rows } = await sql`
       SELECT ua.*, a.title, a.url, a.raw_content, a.summary, a.provider, a.published_at, a.ingested_at, a.source_id,
+             a.media_type, a.media_url, a.duration_seconds, a.thumbnail_url,
+             a.points, a.comment_count, a.comments_url, a.cluster_id,
              s.name as source_name, s.type as source_type
       FROM user_articles ua
       JOIN articles a ON ua.article_id = a.id
@@ -33,12 +38,14 @@ export async function getUserArticlesByDigestId(
       WHERE ua.user_id = ${userId} AND ua.digest_id = ${digestId}
       ORDER BY ua.relevance_score DESC
     `;
-    return rows as UserArticleWithSource[];
+    return withStoryAlternates(userId, rows as UserArticleWithSource[]);
   }
 
   if (tiers) {
     const { rows } = await sql.query(
       `SELECT ua.*, a.title, a.url, a.raw_content, a.summary, a.provider, a.published_at, a.ingested_at, a.source_id,
+              a.media_type, a.media_url, a.duration_seconds, a.thumbnail_url,
+              a.points, a.comment_count, a.comments_url, a.cluster_id,
               s.name as source_name, s.type as source_type
        FROM user_articles ua
        JOIN articles a ON ua.article_id = a.id
@@ -47,11 +54,13 @@ export async function getUserArticlesByDigestId(
        ORDER BY ua.relevance_score DESC`,
       [userId, digestId, tiers]
     );
-    return rows as UserArticleWithSource[];
+    return withStoryAlternates(userId, rows as UserArticleWithSource[]);
   }
 
   const { rows } = await sql`
     SELECT ua.*, a.title, a.url, a.raw_content, a.summary, a.provider, a.published_at, a.ingested_at, a.source_id,
+           a.media_type, a.media_url, a.duration_seconds, a.thumbnail_url,
+           a.points, a.comment_count, a.comments_url, a.cluster_id,
            s.name as source_name, s.type as source_type
     FROM user_articles ua
     JOIN articles a ON ua.article_id = a.id
@@ -59,7 +68,15 @@ export async function getUserArticlesByDigestId(
     WHERE ua.user_id = ${userId} AND ua.digest_id = ${digestId} AND ua.is_archived = FALSE
     ORDER BY ua.relevance_score DESC
   `;
-  return rows as UserArticleWithSource[];
+  return withStoryAlternates(userId, rows as UserArticleWithSource[]);
+}
+
+/** Attach the other sources covering each article's story, for the digest's "also covered by" line. */
+async function withStoryAlternates(userId: string, articles: UserArticleWithSource[]): Promise<UserArticleWithSource[]> {
+  const clustered = articles.filter(a => a.cluster_id).map(a => a.article_id);
+  if (clustered.length === 0) return articles;
+  const alternates = await getStoryAlternates(userId, clustered);
+  return articles.map(a => ({ ...a, also_covered_by: alternates.get(a.article_id) ?? [] }));
 }
 
 export async function getDigestCompletionStats(userId: string, digestId: string, tier?: DigestTier | DigestTier[]): Promise<{
@@ -111,15 +128,26 @@ export async function getDigestCompletionStats(userId: string, digestId: string,
 export async function getUnscoredArticlesForUser(
   userId: string,
   sourceIds: string[]
-): Promise<{ id: string; source_id: string; title: string; url: string; raw_content: string | null; published_at: string | null }[]> {
+): Promise<{ id: string; source_id: string; title: string; url: string; raw_content: string | null; published_at: string | null; points: number | null; cluster_id: string | null }[]> {
   if (sourceIds.length === 0) return [];
-  // Articles that either have no user_articles row, were fallback-scored, or had scores cleared
+  // Articles that either have no user_articles row, were fallback-scored, or had scores cleared.
+  // Stories the user already has a scored article for are skipped (the prefilter keeps one
+  // article per story among the rest). is_semantic_duplicate is the pre-clustering flag.
   const placeholders = sourceIds.map((_, i) => `$${i + 2}`).join(', ');
   const { rows } = await sql.query(
-    `SELECT a.id, a.source_id, a.title, a.url, a.raw_content, a.published_at
+    `SELECT a.id, a.source_id, a.title, a.url, a.raw_content, a.published_at, a.points, a.cluster_id
      FROM articles a
      WHERE a.source_id IN (${placeholders})
        AND (a.is_semantic_duplicate IS NOT TRUE)
+       AND (
+         a.cluster_id IS NULL
+         OR NOT EXISTS (
+           SELECT 1 FROM articles b
+           JOIN user_articles ub ON ub.article_id = b.id AND ub.user_id = $1
+           WHERE b.cluster_id = a.cluster_id AND b.id <> a.id
+             AND ub.relevance_score IS NOT NULL AND ub.relevance_reason NOT LIKE 'Default score%'
+         )
+       )
        AND (
          NOT EXISTS (
            SELECT 1 FROM user_articles ua WHERE ua.article_id = a.id AND ua.user_id = $1
@@ -138,19 +166,20 @@ export async function getUnscoredArticlesForUser(
 export async function getScoredUnassignedForUser(
   userId: string
 ): Promise<{ id: string; article_id: string; relevance_score: number; is_serendipity: boolean }[]> {
-  // Subquery uses DISTINCT ON (a.external_id) to deduplicate cross-source articles
-  // (same URL from different feeds), keeping the highest-scored version per URL.
+  // Subquery uses DISTINCT ON the story cluster, then the canonical URL (falling back to
+  // external_id for articles ingested before canonicalization) to deduplicate cross-source
+  // articles (same story from different feeds), keeping the highest-scored version per story.
   // Outer query re-sorts by relevance_score for digest generation.
   const { rows } = await sql`
     SELECT id, article_id, relevance_score, is_serendipity FROM (
-      SELECT DISTINCT ON (a.external_id) ua.id, ua.article_id, ua.relevance_score, ua.is_serendipity
+      SELECT DISTINCT ON (COALESCE(a.cluster_id, a.canonical_url, a.external_id)) ua.id, ua.article_id, ua.relevance_score, ua.is_serendipity
       FROM user_articles ua
       JOIN articles a ON ua.article_id = a.id
       WHERE ua.user_id = ${userId}
         AND ua.relevance_score IS NOT NULL
         AND ua.digest_id IS NULL
         AND a.ingested_at > NOW() - INTERVAL '7 days'
-      ORDER BY a.external_id, ua.relevance_score DESC
+      ORDER BY COALESCE(a.cluster_id, a.canonical_url, a.external_id), ua.relevance_score DESC
     ) deduped
     ORDER BY relevance_score DESC
   `;
@@ -160,13 +189,16 @@ export async function getScoredUnassignedForUser(
 export async function setEmbeddingScore(
   userId: string,
   articleId: string,
-  embeddingScore: number
+  embeddingScore: number,
+  breakdown: ScoreBreakdown | null = null
 ): Promise<void> {
+  const breakdownJson = breakdown ? JSON.stringify(breakdown) : null;
   await sql`
-    INSERT INTO user_articles (user_id, article_id, embedding_score)
-    VALUES (${userId}, ${articleId}, ${embeddingScore})
+    INSERT INTO user_articles (user_id, article_id, embedding_score, score_breakdown)
+    VALUES (${userId}, ${articleId}, ${embeddingScore}, ${breakdownJson}::jsonb)
     ON CONFLICT (user_id, article_id) DO UPDATE SET
-      embedding_score = ${embeddingScore}
+      embedding_score = ${embeddingScore},
+      score_breakdown = ${breakdownJson}::jsonb
   `;
 }
 
@@ -288,13 +320,19 @@ export async function getUserArticleEngagementState(
 export async function getUserArticleByArticleId(
   userId: string,
   articleId: string
-): Promise<{ sentiment: Sentiment | null; is_read: boolean; is_bookmarked: boolean; is_archived: boolean } | null> {
+): Promise<{ sentiment: Sentiment | null; is_read: boolean; is_bookmarked: boolean; is_archived: boolean; score_breakdown: ScoreBreakdown | null } | null> {
   const { rows } = await sql`
-    SELECT sentiment, is_read, is_bookmarked, is_archived
+    SELECT sentiment, is_read, is_bookmarked, is_archived, score_breakdown
     FROM user_articles
     WHERE user_id = ${userId} AND article_id = ${articleId}
   `;
   if (!rows[0]) return null;
   const r = rows[0];
-  return { sentiment: r.sentiment as Sentiment | null, is_read: r.is_read as boolean, is_bookmarked: r.is_bookmarked as boolean, is_archived: r.is_archived as boolean };
+  return {
+    sentiment: r.sentiment as Sentiment | null,
+    is_read: r.is_read as boolean,
+    is_bookmarked: r.is_bookmarked as boolean,
+    is_archived: r.is_archived as boolean,
+    score_breakdown: (r.score_breakdown as ScoreBreakdown | null) ?? null,
+  };
 }
@@ -85,10 +85,39 @@ export async function updateUser(
   return getUserById(id);
 }
 
+export type SafeUser = Omit<User, 'password_hash' | 'feed_token'> & { feed_token?: string | null };
+
+/**
+ * A user as API responses may show it: never the password hash, and the digest feed token only
+ * when the user is looking at their own account.
+ */
+export function toSafeUser(user: User, { includeFeedToken = false }: { includeFeedToken?: boolean } = {}): SafeUser {
+  const safe: SafeUser = {
+    id: user.id,
+    username: user.username,
+    is_admin: user.is_admin,
+    display_name: user.display_name,
+    is_active: user.is_active,
+    created_at: user.created_at,
+  };
+  if (includeFeedToken) safe.feed_token = user.feed_token;
+  return safe;
+}
+
+export async function getUserByFeedToken(token: string): Promise<User | null> {
+  const { rows } = await sql`SELECT * FROM users WHERE feed_token = ${token} AND is_active = TRUE`;
+  return (rows[0] as User) ?? null;
+}
+
+export async function setFeedToken(id: string, token: string | null): Promise<void> {
+  await sql`UPDATE users SET feed_token = ${token} WHERE id = ${id}`;
+}
+
 export async function deleteUser(id: string): Promise<boolean> {
   // Delete all user data in dependency order
   await sql`DELETE FROM feedback WHERE user_id = ${id}`;
   await sql`DELETE FROM user_articles WHERE user_id = ${id}`;
+  await sql`DELETE FROM digest_deliveries WHERE user_id = ${id}`;
   await sql`DELETE FROM digests WHERE user_id = ${id}`;
   await sql`DELETE FROM user_source_settings WHERE user_id = ${id}`;
   await sql`DELETE FROM source_trust WHERE user_id = ${id}`;
@@ -99,6 +128,7 @@ export async function deleteUser(id: string): Promise<boolean> {
   await sql`DELETE FROM learned_preferences WHERE user_id = ${id}`;
   await sql`DELETE FROM settings WHERE user_id = ${id}`;
   await sql`DELETE FROM sessions WHERE user_id = ${id}`;
+  await sql`DELETE FROM api_tokens WHERE user_id = ${id}`;
   await sql`DELETE FROM ingestion_logs WHERE user_id = ${id}`;
   // Clear invite code references (don't delete codes themselves)
   await sql`UPDATE invite_codes SET used_by = NULL, used_at = NULL WHERE used_by = ${id}`;
@@ -0,0 +1,53 @@
+import { randomBytes } from 'node:crypto';
+import type { Digest, User, UserArticleWithSource } from '@/types';
+import { escapeXml } from '../utils/xml';
+import { digestUrl } from './webhook';
+
+export interface FeedDigest {
+  digest: Digest;
+  articles: UserArticleWithSource[];
+}
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+function isoDate(value: string | Date): string {
+  return new Date(value).toISOString();
+}
+
+function buildEntry(digest: Digest, article: UserArticleWithSource): string {
+  const link = digestUrl(digest.id);
+  const summary = [
+    article.digest_tier === 'serendipity' ? 'Serendipity pick.' : null,
+    article.relevance_reason,
+  ].filter(Boolean).join(' ');
+
+  return `  <entry>
+    <id>urn:ketchup:${escapeXml(digest.id)}:${escapeXml(article.article_id)}</id>
+    <title>${escapeXml(article.title)}</title>
+    <link rel="alternate" href="${escapeXml(article.url)}"/>
+${link ? `    <link rel="related" href="${escapeXml(link)}"/>\n` : ''}    <updated>${isoDate(digest.generated_at)}</updated>
+${article.published_at ? `    <published>${isoDate(article.published_at)}</published>\n` : ''}    <author><name>${escapeXml(article.source_name)}</name></author>
+    <category term="${escapeXml(article.digest_tier ?? 'recommended')}"/>
+${summary ? `    <summary>${escapeXml(summary)}</summary>\n` : ''}  </entry>`;
+}
+
+/** Atom 1.0 document with one entry per recommended/serendipity article, newest digest first */
+export function buildDigestAtom(user: User, selfUrl: string, digests: FeedDigest[]): string {
+  const updated = digests.length > 0 ? isoDate(digests[0].digest.generated_at) : isoDate(user.created_at);
+  const entries = digests
+    .flatMap(({ digest, articles }) => articles.map(a => buildEntry(digest, a)))
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>urn:ketchup:feed:${escapeXml(user.id)}</id>
+  <title>${escapeXml(`ketchup — ${user.display_name || user.username}`)}</title>
+  <link rel="self" href="${escapeXml(selfUrl)}"/>
+  <updated>${updated}</updated>
+  <generator>ketchup</generator>
+${entries}
+</feed>
+`;
+}
@@ -0,0 +1,58 @@
+import type { Digest, UserArticleWithSource } from '@/types';
+import type { MailMessage } from './smtp';
+import { digestUrl } from './webhook';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+/** Render a digest as a plain-text + HTML email. Lists the main digest; bonus articles are only counted. */
+export function renderDigestEmail(
+  to: string,
+  digest: Digest,
+  articles: UserArticleWithSource[],
+  bonusCount: number
+): MailMessage {
+  const date = formatDate(digest.generated_at);
+  const url = digestUrl(digest.id);
+  const countLabel = `${articles.length} article${articles.length !== 1 ? 's' : ''}`;
+  const subject = `Your ketchup digest for ${date} (${countLabel})`;
+
+  const textLines = [`ketchup — ${date}`, `${countLabel}${bonusCount > 0 ? `, plus ${bonusCount} bonus` : ''}`, ''];
+  for (const a of articles) {
+    textLines.push(`${a.digest_tier === 'serendipity' ? '✨ ' : ''}${a.title}`);
+    textLines.push(`${a.source_name} — ${a.url}`);
+    if (a.summary) textLines.push(a.summary);
+    textLines.push('');
+  }
+  if (url) textLines.push(`Open the digest: ${url}`);
+
+  const items = articles.map(a => `
+    <tr><td style="padding:12px 0;border-bottom:1px solid #e5e5e5">
+      <div style="font-size:12px;color:#777">${escapeHtml(a.source_name)}${a.digest_tier === 'serendipity' ? ' · ✨ serendipity' : ''}</div>
+      <a href="${escapeHtml(a.url)}" style="font-size:16px;color:#111;text-decoration:none;font-weight:600">${escapeHtml(a.title)}</a>
+      ${a.summary ? `<div style="font-size:14px;color:#555;margin-top:4px">${escapeHtml(a.summary)}</div>` : ''}
+    </td></tr>`).join('');
+
+  const html = `<!doctype html>
+<html><body style="margin:0;padding:24px;background:#fafafa;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif">
+  <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#fff;padding:24px;border-radius:8px">
+    <tr><td>
+      <div style="font-size:20px;font-weight:300">ketchup</div>
+      <div style="font-size:13px;color:#777;margin-top:4px">${escapeHtml(date)} · ${escapeHtml(countLabel)}${bonusCount > 0 ? ` · ${bonusCount} bonus` : ''}</div>
+    </td></tr>
+    ${items}
+    ${url ? `<tr><td style="padding-top:16px"><a href="${escapeHtml(url)}" style="color:#c0392b;font-size:14px">Open the digest &rarr;</a></td></tr>` : ''}
+  </table>
+</body></html>`;
+
+  return { to, subject, text: textLines.join('\n'), html };
+}
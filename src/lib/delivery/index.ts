@@ -0,0 +1,135 @@
+/**
+ * Push notifications for new digests. Each user can enable an outgoing webhook and/or an
+ * email address (stored in settings as `delivery_channels`). Every digest + channel gets a
+ * row in digest_deliveries; failed attempts are retried with exponential backoff by
+ * retryDueDeliveries, which runs after each pipeline run and from /api/deliveries/retry.
+ */
+
+import type { DeliveryChannel, DeliveryChannels, DigestDelivery } from '@/types';
+import { getSetting, setSetting } from '../db/settings';
+import { getDigestById, getLatestDigest } from '../db/digests';
+import { getUserArticlesByDigestId, getDigestCompletionStats } from '../db/user-articles';
+import {
+  createDelivery,
+  markDeliverySent,
+  markDeliveryFailed,
+  getDueDeliveries,
+} from '../db/deliveries';
+import { buildDigestPayload, postWebhook, WebhookError } from './webhook';
+import { renderDigestEmail } from './email';
+import { sendMail, SmtpError } from './smtp';
+import type { IngestionLogger } from '../ingestion/logger';
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+// 5 min, 20 min, 80 min, ~5 h between attempts
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_BACKOFF_FACTOR = 4;
+
+const EMPTY_CHANNELS: DeliveryChannels = { webhook: null, email: null };
+
+export async function getDeliveryChannels(userId: string): Promise<DeliveryChannels> {
+  const raw = await getSetting(userId, 'delivery_channels');
+  if (!raw) return EMPTY_CHANNELS;
+  try {
+    return { ...EMPTY_CHANNELS, ...JSON.parse(raw) };
+  } catch {
+    return EMPTY_CHANNELS;
+  }
+}
+
+export async function setDeliveryChannels(userId: string, channels: DeliveryChannels): Promise<void> {
+  await setSetting(userId, 'delivery_channels', JSON.stringify(channels));
+}
+
+function enabledTargets(channels: DeliveryChannels): { channel: DeliveryChannel; target: string }[] {
+  const targets: { channel: DeliveryChannel; target: string }[] = [];
+  if (channels.webhook?.enabled && channels.webhook.url) targets.push({ channel: 'webhook', target: channels.webhook.url });
+  if (channels.email?.enabled && channels.email.address) targets.push({ channel: 'email', target: channels.email.address });
+  return targets;
+}
+
+/** Send one digest over one channel. Throws on failure (see isRetryable). */
+async function send(userId: string, digestId: string, channel: DeliveryChannel, channels: DeliveryChannels): Promise<number | null> {
+  const digest = await getDigestById(digestId);
+  if (!digest) throw new Error('Digest no longer exists');
+  const articles = await getUserArticlesByDigestId(userId, digestId, true, ['recommended', 'serendipity']);
+  const bonus = await getDigestCompletionStats(userId, digestId, 'bonus');
+
+  if (channel === 'webhook') {
+    if (!channels.webhook?.url) throw new WebhookError('Webhook is no longer configured', null, false);
+    return postWebhook(channels.webhook.url, channels.webhook.secret, buildDigestPayload(digest, articles, bonus.total_article_count));
+  }
+
+  if (!channels.email?.address) throw new SmtpError('Email delivery is no longer configured', null);
+  await sendMail(renderDigestEmail(channels.email.address, digest, articles, bonus.total_article_count));
+  return null;
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof WebhookError) return err.retryable;
+  // 5xx SMTP replies are permanent (bad recipient, rejected message); 4xx and network errors aren't
+  if (err instanceof SmtpError) return err.code === null || err.code < 500;
+  return true;
+}
+
+async function attempt(delivery: DigestDelivery, channels: DeliveryChannels): Promise<boolean> {
+  try {
+    const status = await send(delivery.user_id, delivery.digest_id, delivery.channel, channels);
+    await markDeliverySent(delivery.id, status);
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status = err instanceof WebhookError ? err.status : err instanceof SmtpError ? err.code : null;
+    const attempts = delivery.attempts + 1;
+    const nextAttemptAt = isRetryable(err) && attempts < MAX_DELIVERY_ATTEMPTS
+      ? new Date(Date.now() + RETRY_BASE_DELAY_MS * RETRY_BACKOFF_FACTOR ** (attempts - 1))
+      : null;
+    await markDeliveryFailed(delivery.id, message, status, nextAttemptAt);
+    return false;
+  }
+}
+
+/** Push a freshly generated digest to every channel the user has enabled. Never throws. */
+export async function deliverDigest(userId: string, digestId: string, logger?: IngestionLogger): Promise<void> {
+  try {
+    const channels = await getDeliveryChannels(userId);
+    for (const { channel, target } of enabledTargets(channels)) {
+      const delivery = await createDelivery(userId, digestId, channel, target);
+      if (delivery.status !== 'pending' || delivery.attempts > 0) continue;
+      const ok = await attempt(delivery, channels);
+      if (ok) {
+        logger?.log('delivery', `Digest sent via ${channel}`);
+      } else {
+        logger?.warn('delivery', `Digest ${channel} delivery failed (will retry if possible)`);
+      }
+    }
+  } catch (err) {
+    logger?.warn('delivery', `Digest delivery failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Retry failed deliveries whose backoff has elapsed. */
+export async function retryDueDeliveries(logger?: IngestionLogger): Promise<{ attempted: number; sent: number }> {
+  const due = await getDueDeliveries();
+  let sent = 0;
+  for (const delivery of due) {
+    const channels = await getDeliveryChannels(delivery.user_id);
+    if (!enabledTargets(channels).some(t => t.channel === delivery.channel)) {
+      await markDeliveryFailed(delivery.id, 'Channel disabled before retry', null, null);
+      continue;
+    }
+    if (await attempt(delivery, channels)) sent++;
+  }
+  if (due.length > 0) {
+    logger?.log('delivery', `Retried ${due.length} digest deliveries: ${sent} sent`);
+  }
+  return { attempted: due.length, sent };
+}
+
+/** Send the user's latest digest over one channel right now, without touching the delivery log. */
+export async function sendTestDelivery(userId: string, channel: DeliveryChannel): Promise<void> {
+  const digest = await getLatestDigest(userId);
+  if (!digest) throw new Error('No digest to send yet');
+  const channels = await getDeliveryChannels(userId);
+  await send(userId, digest.id, channel, channels);
+}
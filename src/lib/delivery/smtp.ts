@@ -0,0 +1,219 @@
+/**
+ * Minimal SMTP client for digest emails. Port 465 uses implicit TLS; any other port
+ * upgrades with STARTTLS when the server offers it. Credentials are only ever sent
+ * over TLS (AUTH PLAIN, or AUTH LOGIN when that's all the server supports).
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import { config } from '../config';
+
+const SMTP_TIMEOUT_MS = 20_000;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code: number | null) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+export function isSmtpConfigured(): boolean {
+  return !!config.smtpHost && !!config.smtpFrom;
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('error', err => this.fail(err));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed', null)));
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => {
+      this.fail(new SmtpError('SMTP server timed out', null));
+      socket.destroy();
+    });
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) return reject(this.failure);
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /** Send one command line and check the reply code. `label` replaces the line in errors (for AUTH). */
+  async command(line: string, expect: number[], label?: string): Promise<SmtpReply> {
+    this.socket.write(line + '\r\n');
+    return this.expect(expect, label ?? line.split(' ')[0]);
+  }
+
+  async expect(codes: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${label} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code);
+    }
+    return reply;
+  }
+
+  /** Hand the socket over to TLS after a successful STARTTLS. */
+  upgrade(servername: string): Promise<SmtpConnection> {
+    for (const event of ['data', 'error', 'close', 'timeout']) this.socket.removeAllListeners(event);
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: this.socket, servername }, () => resolve(new SmtpConnection(secure)));
+      secure.once('error', reject);
+    });
+  }
+
+  destroy(): void {
+    this.socket.destroy();
+  }
+
+  private flush(): void {
+    if (!this.pending) return;
+    const lines = this.buffer.split('\r\n');
+    // The last element is an incomplete line (or ''), never part of a finished reply
+    for (let i = 0; i < lines.length - 1; i++) {
+      // Multi-line replies use "250-..." continuation lines and end with "250 ..."
+      if (/^\d{3}(?: |$)/.test(lines[i])) {
+        const replyLines = lines.slice(0, i + 1);
+        this.buffer = lines.slice(i + 1).join('\r\n');
+        const { resolve } = this.pending;
+        this.pending = null;
+        resolve({ code: parseInt(lines[i].slice(0, 3), 10), lines: replyLines.map(l => l.slice(4)) });
+        return;
+      }
+    }
+  }
+
+  private fail(err: Error): void {
+    if (!this.failure) this.failure = err;
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = null;
+      reject(err);
+    }
+  }
+}
+
+function openSocket(host: string, port: number, implicitTls: boolean): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = implicitTls
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP connection timed out', null)));
+  });
+}
+
+/** "Ketchup <digest@example.com>" → "digest@example.com" */
+function bareAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+function heloName(): string {
+  try {
+    return config.appUrl ? new URL(config.appUrl).hostname : 'localhost';
+  } catch {
+    return 'localhost';
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n').trimEnd();
+}
+
+export function buildMimeMessage(message: MailMessage, from: string): string {
+  const boundary = `ketchup-${randomUUID()}`;
+  const domain = bareAddress(from).split('@')[1] || 'localhost';
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!isSmtpConfigured()) throw new SmtpError('SMTP is not configured on this server', null);
+  if (/[\r\n<>]/.test(message.to)) throw new SmtpError('Invalid recipient address', null);
+
+  const host = config.smtpHost;
+  const port = config.smtpPort;
+  const implicitTls = port === 465;
+
+  let conn = new SmtpConnection(await openSocket(host, port, implicitTls));
+  try {
+    await conn.expect([220], 'Greeting');
+    let ehlo = await conn.command(`EHLO ${heloName()}`, [250]);
+    let secure = implicitTls;
+
+    if (!secure && ehlo.lines.some(l => /^STARTTLS\b/i.test(l))) {
+      await conn.command('STARTTLS', [220]);
+      conn = await conn.upgrade(host);
+      secure = true;
+      ehlo = await conn.command(`EHLO ${heloName()}`, [250]);
+    }
+
+    if (config.smtpUser) {
+      if (!secure) throw new SmtpError('SMTP server does not offer STARTTLS; refusing to send credentials in plain text', null);
+      const authLine = ehlo.lines.find(l => /^AUTH\b/i.test(l)) ?? '';
+      if (/\bLOGIN\b/i.test(authLine) && !/\bPLAIN\b/i.test(authLine)) {
+        await conn.command('AUTH LOGIN', [334]);
+        await conn.command(Buffer.from(config.smtpUser).toString('base64'), [334], 'AUTH LOGIN username');
+        await conn.command(Buffer.from(config.smtpPass).toString('base64'), [235], 'AUTH LOGIN password');
+      } else {
+        const token = Buffer.from(`\0${config.smtpUser}\0${config.smtpPass}`).toString('base64');
+        await conn.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+      }
+    }
+
+    await conn.command(`MAIL FROM:<${bareAddress(config.smtpFrom)}>`, [250]);
+    await conn.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await conn.command('DATA', [354]);
+    // Dot-stuffing: a line starting with "." would otherwise end the message early
+    const body = buildMimeMessage(message, config.smtpFrom).replace(/^\./gm, '..');
+    await conn.command(`${body}\r\n.`, [250], 'Message');
+    await conn.command('QUIT', [221]).catch(() => { /* message already accepted */ });
+  } finally {
+    conn.destroy();
+  }
+}
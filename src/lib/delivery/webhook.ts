@@ -0,0 +1,98 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import type { Digest, UserArticleWithSource } from '@/types';
+import { config } from '../config';
+import { assertPublicUrl, UnsafeUrlError } from '../utils/network';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+export const WEBHOOK_TOP_N = 5;
+
+export interface DigestWebhookPayload {
+  event: 'digest.created';
+  digest_id: string;
+  generated_at: string;
+  url: string | null;
+  counts: { recommended: number; serendipity: number; bonus: number };
+  top_articles: { title: string; url: string; source: string; score: number | null }[];
+  /** Plain-text summary, so Slack-compatible incoming webhooks render something useful as-is */
+  text: string;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public readonly status: number | null, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString('hex');
+}
+
+export function digestUrl(digestId: string): string | null {
+  return config.appUrl ? `${config.appUrl}/digest/${digestId}` : null;
+}
+
+export function buildDigestPayload(
+  digest: Digest,
+  articles: UserArticleWithSource[],
+  bonusCount: number
+): DigestWebhookPayload {
+  const top = articles.slice(0, WEBHOOK_TOP_N);
+  const url = digestUrl(digest.id);
+  const recommended = articles.filter(a => a.digest_tier !== 'serendipity').length;
+  const serendipity = articles.length - recommended;
+
+  const lines = [`Your ketchup digest is ready: ${articles.length} article${articles.length !== 1 ? 's' : ''}${bonusCount > 0 ? ` (+${bonusCount} bonus)` : ''}`];
+  for (const a of top) lines.push(`• ${a.title} (${a.source_name}) ${a.url}`);
+  if (url) lines.push(url);
+
+  return {
+    event: 'digest.created',
+    digest_id: digest.id,
+    generated_at: new Date(digest.generated_at).toISOString(),
+    url,
+    counts: { recommended, serendipity, bonus: bonusCount },
+    top_articles: top.map(a => ({ title: a.title, url: a.url, source: a.source_name, score: a.relevance_score })),
+    text: lines.join('\n'),
+  };
+}
+
+/** HMAC-SHA256 over `${timestamp}.${body}`, hex-encoded. Receivers recompute it with their copy of the secret. */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POST the payload. Throws WebhookError; 4xx responses other than 408/429 aren't worth retrying,
+ * nor is a URL that resolves to a private or local address (checked again on every attempt).
+ */
+export async function postWebhook(url: string, secret: string, payload: DigestWebhookPayload): Promise<number> {
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  let res: Response;
+  try {
+    await assertPublicUrl(url);
+    res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ketchup-webhook/1.0',
+        'X-Ketchup-Event': payload.event,
+        'X-Ketchup-Timestamp': timestamp,
+        'X-Ketchup-Signature': `sha256=${signWebhookBody(secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (err) {
+    throw new WebhookError(err instanceof Error ? err.message : String(err), null, !(err instanceof UnsafeUrlError));
+  }
+
+  if (!res.ok) {
+    const retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+    throw new WebhookError(`HTTP ${res.status} ${res.statusText}`.trim(), res.status, retryable);
+  }
+  return res.status;
+}
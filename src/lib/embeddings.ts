@@ -1,6 +1,8 @@
+import { createHash } from 'node:crypto';
 import OpenAI from 'openai';
 import { sql } from '@vercel/postgres';
 import { config } from './config';
+import { getGlobalSetting } from './db/settings';
 
 // --- pgvector detection ---
 
@@ -20,39 +22,151 @@ async function detectPgvector(): Promise<boolean> {
   return pgvectorAvailable;
 }
 
-// --- Embedding generation (OpenAI) ---
+// --- Embedding providers ---
 
-function getClient(): OpenAI {
-  return new OpenAI({ apiKey: config.openaiApiKey });
-}
+export type EmbeddingProviderName = 'openai' | 'openai_compatible' | 'hashing';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['openai', 'openai_compatible', 'hashing'];
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const HASHING_MODEL_ID = 'hashing-v1';
+// OpenAI batches up to 2048 texts per call. Batch aggressively.
+const EMBEDDING_BATCH_SIZE = 2048;
 
 export interface EmbeddingResult {
   embeddings: number[][];
   totalTokens: number;
+  /** Model id the vectors came from, stored alongside them */
+  model: string;
 }
 
-export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResult> {
-  if (texts.length === 0) return { embeddings: [], totalTokens: 0 };
-
-  const client = getClient();
-  // OpenAI batches up to 2048 texts per call. Batch aggressively.
-  const allEmbeddings: number[][] = [];
-  let totalTokens = 0;
-
-  for (let i = 0; i < texts.length; i += 2048) {
-    const batch = texts.slice(i, i + 2048);
-    const response = await client.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: batch,
-      dimensions: config.embeddingDimensions,
-    });
-    for (const item of response.data) {
-      allEmbeddings.push(item.embedding);
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  /** Stored on every embedding row; only vectors with the same model id are ever compared */
+  modelId: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+function openAiEmbeddingProvider(
+  name: EmbeddingProviderName,
+  client: OpenAI,
+  model: string,
+  dimensions?: number
+): EmbeddingProvider {
+  return {
+    name,
+    modelId: model,
+    async embed(texts) {
+      const embeddings: number[][] = [];
+      let totalTokens = 0;
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await client.embeddings.create({
+          model,
+          input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+          ...(dimensions ? { dimensions } : {}),
+        });
+        for (const item of response.data) {
+          embeddings.push(item.embedding);
+        }
+        totalTokens += response.usage?.total_tokens ?? 0;
+      }
+      return { embeddings, totalTokens, model };
+    },
+  };
+}
+
+/**
+ * Deterministic offline embedder: signed feature hashing of word unigrams and bigrams,
+ * L2-normalized. Texts sharing words land close together, which is enough for tests and
+ * local development without an API key.
+ */
+export function hashingEmbedding(text: string, dimensions: number): { embedding: number[]; tokens: number } {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+
+  for (const feature of features) {
+    const hash = createHash('sha256').update(feature).digest();
+    const index = hash.readUInt32BE(0) % dimensions;
+    vector[index] += (hash[4] & 1) ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return { embedding: norm > 0 ? vector.map(v => v / norm) : vector, tokens: words.length };
+}
+
+const hashingProvider: EmbeddingProvider = {
+  name: 'hashing',
+  modelId: HASHING_MODEL_ID,
+  async embed(texts) {
+    const results = texts.map(t => hashingEmbedding(t, config.embeddingDimensions));
+    return {
+      embeddings: results.map(r => r.embedding),
+      totalTokens: results.reduce((sum, r) => sum + r.tokens, 0),
+      model: HASHING_MODEL_ID,
+    };
+  },
+};
+
+function openAiCompatibleProvider(baseURL: string, model: string): EmbeddingProvider {
+  // Self-hosted servers often need no key, but the client insists on one
+  const client = new OpenAI({ apiKey: config.embeddingApiKey || 'none', baseURL });
+  return openAiEmbeddingProvider('openai_compatible', client, model);
+}
+
+/**
+ * Embed a test string with an OpenAI-compatible server before its settings are saved. Returns
+ * what is wrong, or null. The `dimensions` parameter isn't sent to these servers, so with
+ * pgvector their vectors must already match the fixed VECTOR(EMBEDDING_DIMENSIONS) column.
+ */
+export async function checkOpenAiCompatibleProvider(baseURL: string, model: string): Promise<string | null> {
+  let embedding: number[] | undefined;
+  try {
+    ({ embeddings: [embedding] } = await openAiCompatibleProvider(baseURL, model).embed(['ketchup embedding test']));
+  } catch (err) {
+    return `Test embedding failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  if (!embedding?.length) return 'Test embedding failed: the server returned no vector';
+  if (await detectPgvector() && embedding.length !== config.embeddingDimensions) {
+    return `The model returns ${embedding.length}-dimensional vectors, but the embeddings column holds ${config.embeddingDimensions}. Set EMBEDDING_DIMENSIONS=${embedding.length} and run scripts/resize-embeddings.ts, or pick a model with ${config.embeddingDimensions} dimensions.`;
+  }
+  return null;
+}
+
+export async function getEmbeddingProviderName(): Promise<EmbeddingProviderName> {
+  const saved = await getGlobalSetting('embedding_provider');
+  return EMBEDDING_PROVIDERS.includes(saved as EmbeddingProviderName) ? saved as EmbeddingProviderName : 'openai';
+}
+
+/** The provider selected in global settings (default: OpenAI text-embedding-3-small). */
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider> {
+  const name = await getEmbeddingProviderName();
+
+  if (name === 'hashing') return hashingProvider;
+
+  if (name === 'openai_compatible') {
+    const [baseURL, model] = await Promise.all([
+      getGlobalSetting('embedding_base_url'),
+      getGlobalSetting('embedding_model'),
+    ]);
+    if (!baseURL || !model) {
+      throw new Error('OpenAI-compatible embeddings need embedding_base_url and embedding_model settings');
     }
-    totalTokens += response.usage?.total_tokens ?? 0;
+    return openAiCompatibleProvider(baseURL, model);
   }
 
-  return { embeddings: allEmbeddings, totalTokens };
+  return openAiEmbeddingProvider(name, new OpenAI({ apiKey: config.openaiApiKey }), OPENAI_EMBEDDING_MODEL, config.embeddingDimensions);
+}
+
+/** Model id of the active provider; embeddings from any other model are treated as missing. */
+export async function getActiveEmbeddingModel(): Promise<string> {
+  return (await getEmbeddingProvider()).modelId;
+}
+
+export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResult> {
+  const provider = await getEmbeddingProvider();
+  if (texts.length === 0) return { embeddings: [], totalTokens: 0, model: provider.modelId };
+  return provider.embed(texts);
 }
 
 export async function generateEmbedding(text: string): Promise<number[]> {
@@ -63,12 +177,15 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 // --- Cosine similarity (application-level fallback) ---
 
 export function cosineSimilarity(a: number[], b: number[]): number {
+  // Vectors of different sizes come from different models and aren't comparable
+  if (a.length !== b.length) return 0;
   let dot = 0, normA = 0, normB = 0;
   for (let i = 0; i < a.length; i++) {
     dot += a[i] * b[i];
     normA += a[i] * a[i];
     normB += b[i] * b[i];
   }
+  if (normA === 0 || normB === 0) return 0;
   return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
@@ -78,78 +195,89 @@ export async function storeEmbedding(
   refType: 'article' | 'interest' | 'exclusion',
   refId: string,
   embeddingText: string,
-  embedding: number[]
+  embedding: number[],
+  model?: string
 ): Promise<void> {
   const usePgvector = await detectPgvector();
+  const modelId = model ?? await getActiveEmbeddingModel();
 
   if (usePgvector) {
     const vectorStr = `[${embedding.join(',')}]`;
     await sql.query(
-      `INSERT INTO embeddings (ref_type, ref_id, embedding_text, embedding)
-       VALUES ($1, $2, $3, $4::vector)
+      `INSERT INTO embeddings (ref_type, ref_id, embedding_text, embedding, model)
+       VALUES ($1, $2, $3, $4::vector, $5)
        ON CONFLICT (ref_type, ref_id) DO UPDATE SET
          embedding_text = $3,
          embedding = $4::vector,
+         model = $5,
          created_at = CURRENT_TIMESTAMP`,
-      [refType, refId, embeddingText, vectorStr]
+      [refType, refId, embeddingText, vectorStr, modelId]
     );
   } else {
     await sql.query(
-      `INSERT INTO embeddings (ref_type, ref_id, embedding_text, embedding_json)
-       VALUES ($1, $2, $3, $4)
+      `INSERT INTO embeddings (ref_type, ref_id, embedding_text, embedding_json, model)
+       VALUES ($1, $2, $3, $4, $5)
        ON CONFLICT (ref_type, ref_id) DO UPDATE SET
          embedding_text = $3,
          embedding_json = $4,
+         model = $5,
          created_at = CURRENT_TIMESTAMP`,
-      [refType, refId, embeddingText, JSON.stringify(embedding)]
+      [refType, refId, embeddingText, JSON.stringify(embedding), modelId]
     );
   }
 }
 
 export async function getEmbedding(
   refType: 'article' | 'interest' | 'exclusion',
-  refId: string
+  refId: string,
+  model?: string
 ): Promise<number[] | null> {
   const usePgvector = await detectPgvector();
+  const modelId = model ?? await getActiveEmbeddingModel();
 
   if (usePgvector) {
     const { rows } = await sql`
-      SELECT embedding::text FROM embeddings WHERE ref_type = ${refType} AND ref_id = ${refId}
+      SELECT embedding::text FROM embeddings
+      WHERE ref_type = ${refType} AND ref_id = ${refId} AND model = ${modelId}
     `;
     if (!rows[0]) return null;
     // pgvector returns "[0.1,0.2,...]" as text
     return JSON.parse(rows[0].embedding);
   } else {
     const { rows } = await sql`
-      SELECT embedding_json FROM embeddings WHERE ref_type = ${refType} AND ref_id = ${refId}
+      SELECT embedding_json FROM embeddings
+      WHERE ref_type = ${refType} AND ref_id = ${refId} AND model = ${modelId}
     `;
     if (!rows[0]) return null;
     return rows[0].embedding_json as number[];
   }
 }
 
+/** Embeddings for these refs from `model` (default: the active one); other models' vectors are skipped. */
 export async function getEmbeddingsByType(
   refType: 'article' | 'interest' | 'exclusion',
-  refIds: string[]
+  refIds: string[],
+  model?: string
 ): Promise<Map<string, number[]>> {
   if (refIds.length === 0) return new Map();
 
   const usePgvector = await detectPgvector();
-  const placeholders = refIds.map((_, i) => `$${i + 2}`).join(', ');
+  const modelId = model ?? await getActiveEmbeddingModel();
+  const placeholders = refIds.map((_, i) => `$${i + 3}`).join(', ');
   const result = new Map<string, number[]>();
 
   if (usePgvector) {
     const { rows } = await sql.query(
-      `SELECT ref_id, embedding::text FROM embeddings WHERE ref_type = $1 AND ref_id IN (${placeholders})`,
-      [refType, ...refIds]
+      `SELECT ref_id, embedding::text FROM embeddings WHERE ref_type = $1 AND model = $2 AND ref_id IN (${placeholders})`,
+      [refType, modelId, ...refIds]
     );
     for (const row of rows) {
       result.set(row.ref_id, JSON.parse(row.embedding));
     }
   } else {
     const { rows } = await sql.query(
-      `SELECT ref_id, embedding_json FROM embeddings WHERE ref_type = $1 AND ref_id IN (${placeholders})`,
-      [refType, ...refIds]
+      `SELECT ref_id, embedding_json FROM embeddings WHERE ref_type = $1 AND model = $2 AND ref_id IN (${placeholders})`,
+      [refType, modelId, ...refIds]
     );
     for (const row of rows) {
       result.set(row.ref_id, row.embedding_json as number[]);
@@ -166,17 +294,171 @@ export async function deleteEmbedding(
   await sql`DELETE FROM embeddings WHERE ref_type = ${refType} AND ref_id = ${refId}`;
 }
 
-export async function getArticleIdsWithEmbeddings(articleIds: string[]): Promise<Set<string>> {
+export async function getArticleIdsWithEmbeddings(articleIds: string[], model?: string): Promise<Set<string>> {
   if (articleIds.length === 0) return new Set();
 
-  const placeholders = articleIds.map((_, i) => `$${i + 1}`).join(', ');
+  const modelId = model ?? await getActiveEmbeddingModel();
+  const placeholders = articleIds.map((_, i) => `$${i + 2}`).join(', ');
   const { rows } = await sql.query(
-    `SELECT ref_id FROM embeddings WHERE ref_type = 'article' AND ref_id IN (${placeholders})`,
-    articleIds
+    `SELECT ref_id FROM embeddings WHERE ref_type = 'article' AND model = $1 AND ref_id IN (${placeholders})`,
+    [modelId, ...articleIds]
   );
   return new Set(rows.map(r => r.ref_id));
 }
 
+// --- Similarity search (in SQL with pgvector, in Node otherwise) ---
+
+export interface InterestMatch {
+  interestId: string;
+  similarity: number;
+  /** similarity × interest weight */
+  weighted: number;
+}
+
+export interface ArticleSimilarities {
+  /** Best matches by weighted similarity, highest first; zero-weight interests are left out */
+  topInterests: InterestMatch[];
+  /** Interest with the highest raw (positive) similarity */
+  bestInterestId: string | null;
+  /** Closest exclusions, highest similarity first */
+  topExclusions: { exclusionId: string; similarity: number }[];
+}
+
+/**
+ * Compare articles against a user's interests and exclusions. With pgvector the similarities are
+ * computed in Postgres and only each article's top `topN` interest and exclusion matches come back; the JSONB
+ * fallback loads the vectors and does the same in Node. An interest's `offset` (learned from
+ * feedback) is added to its vector before comparing. Articles without a vector from the model
+ * are missing from the result.
+ */
+export async function findArticleSimilarities(
+  articleIds: string[],
+  interests: { id: string; weight: number; offset?: number[] }[],
+  exclusionIds: string[],
+  topN: number,
+  model?: string
+): Promise<Map<string, ArticleSimilarities>> {
+  const result = new Map<string, ArticleSimilarities>();
+  if (articleIds.length === 0 || interests.length === 0) return result;
+
+  const modelId = model ?? await getActiveEmbeddingModel();
+  const entry = (articleId: string) => {
+    let e = result.get(articleId);
+    if (!e) {
+      e = { topInterests: [], bestInterestId: null, topExclusions: [] };
+      result.set(articleId, e);
+    }
+    return e;
+  };
+
+  if (await detectPgvector()) {
+    // NaN (a zero vector) counts as no similarity
+    const { rows } = await sql.query(
+      `WITH sims AS (
+         SELECT a.ref_id AS article_id, w.interest_id, w.weight,
+                COALESCE(NULLIF(1 - (a.embedding <=> (
+                  CASE WHEN w.offset_vec IS NULL THEN i.embedding ELSE i.embedding + w.offset_vec::vector END
+                )), 'NaN'), 0) AS similarity
+         FROM embeddings a
+         CROSS JOIN unnest($3::text[], $4::float8[], $6::text[]) AS w(interest_id, weight, offset_vec)
+         JOIN embeddings i ON i.ref_type = 'interest' AND i.ref_id = w.interest_id AND i.model = $1
+         WHERE a.ref_type = 'article' AND a.model = $1 AND a.ref_id = ANY($2)
+       ), ranked AS (
+         SELECT article_id, interest_id, weight, similarity, similarity * weight AS weighted,
+                ROW_NUMBER() OVER (PARTITION BY article_id ORDER BY (weight <> 0) DESC, similarity * weight DESC) AS weighted_rank,
+                ROW_NUMBER() OVER (PARTITION BY article_id ORDER BY similarity DESC) AS raw_rank
+         FROM sims
+       )
+       SELECT * FROM ranked
+       WHERE (weighted_rank <= $5 AND weight <> 0) OR raw_rank = 1
+       ORDER BY article_id, weighted_rank`,
+      [
+        modelId,
+        articleIds,
+        interests.map(i => i.id),
+        interests.map(i => i.weight),
+        topN,
+        interests.map(i => (i.offset ? `[${i.offset.join(',')}]` : null)),
+      ]
+    );
+    for (const row of rows) {
+      const e = entry(row.article_id);
+      const similarity = Number(row.similarity);
+      if (Number(row.weight) !== 0 && Number(row.weighted_rank) <= topN) {
+        e.topInterests.push({ interestId: row.interest_id, similarity, weighted: Number(row.weighted) });
+      }
+      if (Number(row.raw_rank) === 1 && similarity > 0) e.bestInterestId = row.interest_id;
+    }
+
+    if (exclusionIds.length > 0) {
+      const { rows: exclusionRows } = await sql.query(
+        `SELECT article_id, exclusion_id, similarity FROM (
+           SELECT a.ref_id AS article_id, x.ref_id AS exclusion_id, sim.similarity,
+                  ROW_NUMBER() OVER (PARTITION BY a.ref_id ORDER BY sim.similarity DESC) AS rank
+           FROM embeddings a
+           JOIN embeddings x ON x.ref_type = 'exclusion' AND x.model = $1 AND x.ref_id = ANY($3)
+           CROSS JOIN LATERAL (SELECT COALESCE(NULLIF(1 - (a.embedding <=> x.embedding), 'NaN'), 0) AS similarity) sim
+           WHERE a.ref_type = 'article' AND a.model = $1 AND a.ref_id = ANY($2)
+         ) ranked
+         WHERE rank <= $4
+         ORDER BY article_id, rank`,
+        [modelId, articleIds, exclusionIds, topN]
+      );
+      for (const row of exclusionRows) {
+        entry(row.article_id).topExclusions.push({ exclusionId: row.exclusion_id, similarity: Number(row.similarity) });
+      }
+    }
+    return result;
+  }
+
+  const [articleEmbeddings, interestEmbeddings, exclusionEmbeddings] = await Promise.all([
+    getEmbeddingsByType('article', articleIds, modelId),
+    getEmbeddingsByType('interest', interests.map(i => i.id), modelId),
+    getEmbeddingsByType('exclusion', exclusionIds, modelId),
+  ]);
+  if (interestEmbeddings.size === 0) return result;
+
+  return rankArticleSimilarities(articleEmbeddings, interests, interestEmbeddings, exclusionEmbeddings, topN);
+}
+
+/** In-memory version of the similarity search, for the JSONB fallback and offline evaluation. */
+export function rankArticleSimilarities(
+  articleEmbeddings: Map<string, number[]>,
+  interests: { id: string; weight: number; offset?: number[] }[],
+  interestEmbeddings: Map<string, number[]>,
+  exclusionEmbeddings: Map<string, number[]>,
+  topN: number
+): Map<string, ArticleSimilarities> {
+  const result = new Map<string, ArticleSimilarities>();
+
+  const interestVectors = new Map<string, number[]>();
+  for (const interest of interests) {
+    const baseEmb = interestEmbeddings.get(interest.id);
+    const offset = interest.offset;
+    if (baseEmb) interestVectors.set(interest.id, offset ? baseEmb.map((v, i) => v + (offset[i] ?? 0)) : baseEmb);
+  }
+
+  for (const [articleId, articleEmb] of articleEmbeddings) {
+    const e: ArticleSimilarities = { topInterests: [], bestInterestId: null, topExclusions: [] };
+    let bestSim = 0;
+    const matches: InterestMatch[] = [];
+    for (const interest of interests) {
+      const interestEmb = interestVectors.get(interest.id);
+      if (!interestEmb) continue;
+      const similarity = cosineSimilarity(articleEmb, interestEmb);
+      if (similarity > bestSim) { bestSim = similarity; e.bestInterestId = interest.id; }
+      if (interest.weight !== 0) matches.push({ interestId: interest.id, similarity, weighted: similarity * interest.weight });
+    }
+    e.topInterests = matches.sort((a, b) => b.weighted - a.weighted).slice(0, topN);
+    e.topExclusions = [...exclusionEmbeddings]
+      .map(([exclusionId, excEmb]) => ({ exclusionId, similarity: cosineSimilarity(articleEmb, excEmb) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, topN);
+    result.set(articleId, e);
+  }
+  return result;
+}
+
 // --- Pruning ---
 
 export async function pruneOldArticleEmbeddings(daysOld: number = 7): Promise<number> {
@@ -0,0 +1,186 @@
+/**
+ * Link aggregators (Hacker News, Lobsters). Their RSS only carries a title and a
+ * comments link, so we read their JSON listings instead: the article URL is the
+ * submitted link, and points / comment count are kept as a popularity signal.
+ */
+
+import type { RawArticle, AggregatorSite } from '@/types';
+import { normalizeUrl, FETCH_USER_AGENT } from './utils';
+import { htmlToText } from './extract';
+import { categorizeRssError } from './rss';
+import type { FeedFetchResult, FeedValidationResult } from './rss';
+
+interface AggregatorSiteInfo {
+  name: string;
+  /** Listing endpoint stored as the source's config.url */
+  listingUrl: string;
+  hosts: string[];
+}
+
+export const AGGREGATOR_SITES: Record<AggregatorSite, AggregatorSiteInfo> = {
+  hackernews: {
+    name: 'Hacker News',
+    listingUrl: 'https://hn.algolia.com/api/v1/search?tags=front_page&hitsPerPage=50',
+    hosts: ['news.ycombinator.com', 'hn.algolia.com'],
+  },
+  lobsters: {
+    name: 'Lobsters',
+    listingUrl: 'https://lobste.rs/hottest.json',
+    hosts: ['lobste.rs'],
+  },
+};
+
+const LISTING_TIMEOUT_MS = 10000;
+
+// Aggregators re-rank constantly, so there is no point in conditional GET
+const NO_CACHE_HEADERS = { etag: null, lastModified: null };
+
+interface HackerNewsHit {
+  objectID: string;
+  title?: string;
+  url?: string | null;
+  author?: string;
+  points?: number | null;
+  num_comments?: number | null;
+  created_at?: string;
+  story_text?: string | null;
+}
+
+interface LobstersStory {
+  short_id: string;
+  title?: string;
+  url?: string;
+  score?: number;
+  comment_count?: number;
+  created_at?: string;
+  description_plain?: string;
+  description?: string;
+  comments_url?: string;
+  submitter_user?: string | { username?: string };
+  tags?: string[];
+}
+
+export function detectAggregatorSite(url: string): AggregatorSite | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+  for (const [site, info] of Object.entries(AGGREGATOR_SITES) as [AggregatorSite, AggregatorSiteInfo][]) {
+    if (info.hosts.includes(host)) return site;
+  }
+  return null;
+}
+
+async function fetchListing(url: string): Promise<unknown> {
+  const res = await fetch(url, {
+    headers: { 'User-Agent': FETCH_USER_AGENT, 'Accept': 'application/json' },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(LISTING_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`Status code ${res.status}`);
+  }
+  try {
+    return await res.json();
+  } catch (err) {
+    throw new Error(`Not a valid aggregator listing (${err instanceof Error ? err.message : String(err)})`);
+  }
+}
+
+function hackerNewsArticles(sourceId: string, listing: unknown): RawArticle[] {
+  const hits = (listing as { hits?: HackerNewsHit[] } | null)?.hits;
+  if (!Array.isArray(hits)) throw new Error('Not a valid aggregator listing (missing hits)');
+
+  return hits
+    .filter(hit => hit.title && hit.objectID)
+    .map(hit => {
+      const commentsUrl = `https://news.ycombinator.com/item?id=${hit.objectID}`;
+      // Ask/Show HN text posts have no outbound link — the discussion is the article
+      const url = normalizeUrl(hit.url || commentsUrl);
+      return {
+        title: hit.title!,
+        url,
+        content: hit.story_text ? htmlToText(hit.story_text) || null : null,
+        external_id: url,
+        published_at: hit.created_at || null,
+        source_id: sourceId,
+        author: hit.author || null,
+        points: hit.points ?? null,
+        comment_count: hit.num_comments ?? null,
+        comments_url: commentsUrl,
+      };
+    });
+}
+
+function lobstersArticles(sourceId: string, listing: unknown): RawArticle[] {
+  if (!Array.isArray(listing)) throw new Error('Not a valid aggregator listing (expected a story array)');
+
+  return (listing as LobstersStory[])
+    .filter(story => story.title && story.short_id)
+    .map(story => {
+      const commentsUrl = story.comments_url || `https://lobste.rs/s/${story.short_id}`;
+      const url = normalizeUrl(story.url || commentsUrl);
+      const description = story.description_plain?.trim()
+        || (story.description ? htmlToText(story.description) : '');
+      const tags = story.tags?.length ? `Tags: ${story.tags.join(', ')}` : '';
+      const submitter = typeof story.submitter_user === 'string' ? story.submitter_user : story.submitter_user?.username;
+      return {
+        title: story.title!,
+        url,
+        content: [description, tags].filter(Boolean).join('\n\n') || null,
+        external_id: url,
+        published_at: story.created_at || null,
+        source_id: sourceId,
+        author: submitter || null,
+        points: story.score ?? null,
+        comment_count: story.comment_count ?? null,
+        comments_url: commentsUrl,
+      };
+    });
+}
+
+async function fetchSiteArticles(sourceId: string, site: AggregatorSite, listingUrl: string): Promise<RawArticle[]> {
+  const listing = await fetchListing(listingUrl);
+  return site === 'hackernews' ? hackerNewsArticles(sourceId, listing) : lobstersArticles(sourceId, listing);
+}
+
+export async function fetchAggregator(
+  sourceId: string,
+  config: Record<string, unknown>,
+  maxItems?: number
+): Promise<FeedFetchResult> {
+  const site = config.site as AggregatorSite;
+  if (!AGGREGATOR_SITES[site]) {
+    throw new Error(`Unknown aggregator site: ${String(config.site)}`);
+  }
+  const listingUrl = (config.url as string | undefined) || AGGREGATOR_SITES[site].listingUrl;
+  const articles = await fetchSiteArticles(sourceId, site, listingUrl);
+  return {
+    articles: maxItems ? articles.slice(0, maxItems) : articles,
+    notModified: false,
+    cacheHeaders: NO_CACHE_HEADERS,
+  };
+}
+
+export async function validateAggregator(site: AggregatorSite): Promise<FeedValidationResult> {
+  const info = AGGREGATOR_SITES[site];
+  try {
+    const articles = await fetchSiteArticles('', site, info.listingUrl);
+    return {
+      valid: true,
+      title: info.name,
+      articles: articles.map(a => ({ title: a.title, url: a.url, content: a.content, published_at: a.published_at })),
+      error: null,
+    };
+  } catch (err) {
+    const { message } = categorizeRssError(err);
+    return {
+      valid: false,
+      title: null,
+      articles: [],
+      error: message,
+    };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Canonical URL resolution for new articles, so the same story arriving through
+ * different feeds (FeedBurner redirects, ?rss=1 params, AMP pages) dedupes to one URL:
+ * 1. rel=canonical from the article page, when full text was fetched for it
+ * 2. otherwise, a bounded chain of HEAD requests to unwrap redirects
+ * 3. then AMP unwrapping and the tracking-param blocklist
+ */
+
+import type { RawArticle } from '@/types';
+import { getGlobalSetting } from '../db/settings';
+import { FETCH_USER_AGENT } from './utils';
+import { assertPublicUrl, UnsafeUrlError } from '../utils/network';
+import { runFetchPool, hostnameOf } from './fetch-pool';
+import type { IngestionLogger } from './logger';
+
+// Built-in blocklist; admins can extend it with the tracking_param_blocklist setting.
+// Entries ending in * match by prefix.
+export const DEFAULT_TRACKING_PARAMS = [
+  'utm_*', 'ref', 'source', 'rss', 'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid',
+  'cmpid', 'at_medium', 'at_campaign', 'at_custom*', 'ncid', 'sr_share', 'smid', 'smtyp', '_hsenc', '_hsmi',
+  'mkt_tok', 'igshid', 'ocid', 'ito', 'wt.mc_id', 'amp',
+];
+
+const MAX_REDIRECTS = 5;
+const HEAD_TIMEOUT_MS = 5000;
+const RESOLVE_CONCURRENCY = 8;
+const RESOLVE_PER_HOST_CONCURRENCY = 2;
+const RESOLVE_PER_HOST_DELAY_MS = 250;
+const RESOLVE_TIME_BUDGET_MS = 30_000;
+
+export interface CanonicalStats {
+  resolved: number;
+  changed: number;
+}
+
+export async function getTrackingParamBlocklist(): Promise<string[]> {
+  const extra = await getGlobalSetting('tracking_param_blocklist');
+  const custom = (extra ?? '')
+    .split(/[,\s]+/)
+    .map(p => p.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_TRACKING_PARAMS, ...custom];
+}
+
+function isBlocked(param: string, blocklist: string[]): boolean {
+  const key = param.toLowerCase();
+  return blocklist.some(entry => entry.endsWith('*') ? key.startsWith(entry.slice(0, -1)) : key === entry);
+}
+
+/**
+ * Strip tracking params, AMP path suffixes, fragments and trailing slashes.
+ * Returns the input unchanged if it isn't a valid URL.
+ */
+export function cleanUrl(rawUrl: string, blocklist: string[]): string {
+  try {
+    const url = new URL(rawUrl);
+    for (const key of [...url.searchParams.keys()]) {
+      if (isBlocked(key, blocklist)) url.searchParams.delete(key);
+    }
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase();
+    // example.com/story/amp and example.com/story/amp.html → example.com/story
+    url.pathname = url.pathname.replace(/\/amp(\.html)?\/?$/i, '') || '/';
+
+    let cleaned = url.toString();
+    if (cleaned.endsWith('/') && url.pathname !== '/') {
+      cleaned = cleaned.slice(0, -1);
+    }
+    return cleaned;
+  } catch {
+    return rawUrl;
+  }
+}
+
+export function isHomepage(url: string): boolean {
+  try {
+    return new URL(url).pathname.replace(/\/+$/, '') === '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Follow redirects with HEAD requests, at most MAX_REDIRECTS hops. Returns the last URL reached.
+ * Article URLs come from feed content, so every hop must resolve to a public address; a chain
+ * that leads into a private network returns the original URL without requesting it.
+ */
+export async function followRedirects(url: string): Promise<string> {
+  let current = url;
+  for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+    let res: Response;
+    try {
+      await assertPublicUrl(current);
+      res = await fetch(current, {
+        method: 'HEAD',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(HEAD_TIMEOUT_MS),
+        headers: { 'User-Agent': FETCH_USER_AGENT },
+      });
+    } catch (err) {
+      return err instanceof UnsafeUrlError ? url : current;
+    }
+    const location = res.headers.get('location');
+    if (res.status < 300 || res.status >= 400 || !location) return current;
+    try {
+      current = new URL(location, current).toString();
+    } catch {
+      return current;
+    }
+  }
+  return current;
+}
+
+/**
+ * Set canonical_url on each new article, in place. Articles that already carry a
+ * page-declared canonical (from full-text fetching) skip the HEAD requests.
+ */
+export async function resolveCanonicalUrls(articles: RawArticle[], logger?: IngestionLogger): Promise<CanonicalStats> {
+  const stats: CanonicalStats = { resolved: 0, changed: 0 };
+  if (articles.length === 0) return stats;
+
+  const blocklist = await getTrackingParamBlocklist();
+  const needsHead = articles.filter(a => !a.canonical_url);
+
+  const { skipped } = await runFetchPool(
+    needsHead,
+    article => hostnameOf(article.url, article.url),
+    async (article) => {
+      const target = await followRedirects(article.url);
+      // A story URL that redirects to a homepage is a paywall/consent/404 bounce, not a canonical
+      if (isHomepage(target) && !isHomepage(article.url)) return;
+      article.canonical_url = target;
+      stats.resolved++;
+    },
+    {
+      concurrency: RESOLVE_CONCURRENCY,
+      perHostConcurrency: RESOLVE_PER_HOST_CONCURRENCY,
+      perHostDelayMs: RESOLVE_PER_HOST_DELAY_MS,
+      deadline: Date.now() + RESOLVE_TIME_BUDGET_MS,
+    }
+  );
+  if (skipped.length > 0) {
+    logger?.warn('canonical', `Redirect resolution time budget exhausted — ${skipped.length} URL(s) only cleaned, not resolved`);
+  }
+
+  for (const article of articles) {
+    article.canonical_url = cleanUrl(article.canonical_url || article.url, blocklist);
+    if (article.canonical_url !== article.url) stats.changed++;
+  }
+  return stats;
+}
@@ -0,0 +1,83 @@
+/**
+ * Story clustering: a new article whose embedding is close enough to a recently ingested
+ * article (this run or earlier runs within the window) joins that article's story cluster.
+ * Scoring and digest assembly then treat each cluster as one story per user, and the digest
+ * lists the other members as "also covered by".
+ */
+
+import { getGlobalSetting } from '../db/settings';
+import { getClusterCandidates, createStoryCluster, addArticleToCluster } from '../db/story-clusters';
+import { getEmbeddingsByType, cosineSimilarity } from '../embeddings';
+import type { IngestionLogger } from './logger';
+
+const DEFAULT_STORY_CLUSTER_THRESHOLD = 0.85;
+const STORY_WINDOW_HOURS = 48;
+// Bounds the per-run comparison cost on busy instances
+const MAX_WINDOW_CANDIDATES = 2000;
+
+export interface EmbeddedArticle {
+  id: string;
+  title: string;
+  embedding: number[];
+}
+
+export interface ClusterStats {
+  clustered: number;
+  newClusters: number;
+}
+
+interface PoolEntry extends EmbeddedArticle {
+  cluster_id: string | null;
+}
+
+export async function clusterNewArticles(
+  articles: EmbeddedArticle[],
+  provider: string,
+  logger?: IngestionLogger
+): Promise<ClusterStats> {
+  const stats: ClusterStats = { clustered: 0, newClusters: 0 };
+  if (articles.length === 0) return stats;
+
+  const thresholdSetting = await getGlobalSetting('semantic_dedup_threshold');
+  const threshold = thresholdSetting ? parseFloat(thresholdSetting) : DEFAULT_STORY_CLUSTER_THRESHOLD;
+
+  const candidates = await getClusterCandidates(provider, articles.map(a => a.id), STORY_WINDOW_HOURS, MAX_WINDOW_CANDIDATES);
+  const candidateEmbeddings = await getEmbeddingsByType('article', candidates.map(c => c.id));
+  const pool: PoolEntry[] = [];
+  for (const candidate of candidates) {
+    const embedding = candidateEmbeddings.get(candidate.id);
+    if (embedding) pool.push({ ...candidate, embedding });
+  }
+
+  for (const article of articles) {
+    let best: PoolEntry | null = null;
+    let bestSim = threshold;
+    for (const entry of pool) {
+      const sim = cosineSimilarity(article.embedding, entry.embedding);
+      if (sim >= bestSim) {
+        best = entry;
+        bestSim = sim;
+      }
+    }
+
+    let clusterId: string | null = null;
+    if (best) {
+      if (!best.cluster_id) {
+        best.cluster_id = await createStoryCluster(best.id);
+        stats.newClusters++;
+      }
+      clusterId = best.cluster_id;
+      await addArticleToCluster(article.id, clusterId);
+      stats.clustered++;
+      logger?.log('clustering', `  "${article.title.slice(0, 60)}" ≈ "${best.title.slice(0, 60)}" (${bestSim.toFixed(3)})`);
+    }
+
+    // Later articles in this batch can cluster with this one too
+    pool.push({ ...article, cluster_id: clusterId });
+  }
+
+  if (stats.clustered > 0) {
+    logger?.log('clustering', `Clustered ${stats.clustered} article(s) into stories (${stats.newClusters} new cluster(s))`);
+  }
+  return stats;
+}
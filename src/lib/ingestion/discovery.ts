@@ -0,0 +1,94 @@
+import { fetchHtmlPage } from './manual';
+import { parseAttributes } from './extract';
+import { validateFeed } from './validate';
+import type { FeedSourceType } from './validate';
+import { runFetchPool, hostnameOf } from './fetch-pool';
+import { assertPublicUrl, UnsafeUrlError } from '../utils/network';
+
+export interface DiscoveredFeed {
+  url: string;
+  type: FeedSourceType;
+  title: string | null;
+  article_count: number;
+}
+
+// Paths tried on the site's origin when the page doesn't advertise a feed
+const COMMON_FEED_PATHS = ['/feed', '/rss.xml', '/atom.xml', '/index.xml', '/feed.json'];
+const MAX_CANDIDATES = 8;
+
+const FEED_LINK_TYPES = /^application\/((rss|atom)\+xml|feed\+json)$/i;
+
+/** Collect <link rel="alternate" type="application/rss+xml|atom+xml|feed+json"> hrefs, resolved against the page URL. */
+export function findFeedLinks(html: string, baseUrl: string): string[] {
+  const urls: string[] = [];
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    const attrs = parseAttributes(tag);
+    const rels = (attrs.rel || '').toLowerCase().split(/\s+/);
+    if (!rels.includes('alternate') || !FEED_LINK_TYPES.test((attrs.type || '').trim()) || !attrs.href) continue;
+    try {
+      urls.push(new URL(attrs.href.trim(), baseUrl).toString());
+    } catch {
+      // unresolvable href
+    }
+  }
+  return urls;
+}
+
+/**
+ * Find feeds for a website URL: advertised <link> tags first, then common feed paths.
+ * Each candidate is validated; only working feeds are returned, in discovery order.
+ */
+export async function discoverFeeds(pageUrl: string): Promise<DiscoveredFeed[]> {
+  let candidates: string[] = [];
+  let origin: string;
+
+  try {
+    const { html, finalUrl } = await fetchHtmlPage(pageUrl);
+    candidates = findFeedLinks(html, finalUrl);
+    origin = new URL(finalUrl).origin;
+  } catch (err) {
+    // A private or local site isn't probed at all
+    if (err instanceof UnsafeUrlError) return [];
+    // The page itself may be unreachable while the common paths still work
+    try {
+      origin = new URL(pageUrl).origin;
+    } catch {
+      return [];
+    }
+  }
+
+  for (const path of COMMON_FEED_PATHS) {
+    candidates.push(origin + path);
+  }
+
+  const seen = new Set<string>();
+  const deduped = candidates.filter(url => {
+    if (url === pageUrl || seen.has(url)) return false;
+    seen.add(url);
+    return true;
+  }).slice(0, MAX_CANDIDATES);
+
+  // Advertised links can point anywhere; only public addresses are validated
+  const isPublic = await Promise.all(deduped.map(url => assertPublicUrl(url).then(() => true, () => false)));
+  const unique = deduped.filter((_, i) => isPublic[i]);
+
+  const { completed } = await runFetchPool(
+    unique.map((url, index) => ({ url, index })),
+    item => hostnameOf(item.url, item.url),
+    async item => ({ ...item, result: await validateFeed(item.url) }),
+    { concurrency: 4, perHostConcurrency: 2, perHostDelayMs: 200 }
+  );
+
+  // Several paths often serve the same feed (e.g. /feed and the advertised link); keep the first
+  const found = new Set<string>();
+  return completed
+    .filter(c => c.result.valid && c.result.type && c.result.type !== 'aggregator')
+    .sort((a, b) => a.index - b.index)
+    .filter(c => {
+      const key = `${c.result.title ?? ''}|${c.result.articles.length}|${c.result.articles[0]?.url ?? ''}`;
+      if (found.has(key)) return false;
+      found.add(key);
+      return true;
+    })
+    .map(c => ({ url: c.url, type: c.result.type!, title: c.result.title, article_count: c.result.articles.length }));
+}
@@ -0,0 +1,205 @@
+/**
+ * Readability-style main-content extraction for a single article page.
+ * Regex-based on purpose: ingestion runs in serverless/Actions without a DOM,
+ * and we only need title, byline, publish date and the article body text.
+ */
+
+export interface ExtractedArticle {
+  title: string | null;
+  byline: string | null;
+  content: string | null;
+  published_at: string | null;
+  /** Page-declared canonical URL (<link rel="canonical">, else og:url), absolute */
+  canonical_url: string | null;
+}
+
+const MAX_CONTENT_CHARS = 20000;
+const MIN_PARAGRAPH_CHARS = 40;
+
+// Elements that never contain article body text
+const NOISE_TAGS = ['script', 'style', 'noscript', 'svg', 'template', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'figure'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert an HTML fragment to plain text, keeping paragraph breaks.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|blockquote|pre)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+export function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(tag)) !== null) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+}
+
+function getMetaContent(html: string, keys: string[]): string | null {
+  const wanted = new Set(keys.map(k => k.toLowerCase()));
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property || attrs.name || attrs.itemprop || '').toLowerCase();
+    if (wanted.has(key) && attrs.content?.trim()) {
+      return attrs.content.trim();
+    }
+  }
+  return null;
+}
+
+function stripNoise(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of NOISE_TAGS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+  return cleaned;
+}
+
+// Flatten JSON-LD blocks (arrays and @graph containers) into a list of objects
+function getJsonLdObjects(html: string): Record<string, unknown>[] {
+  const objects: Record<string, unknown>[] = [];
+  const re = /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html)) !== null) {
+    try {
+      const parsed = JSON.parse(m[1].trim());
+      const queue: unknown[] = Array.isArray(parsed) ? [...parsed] : [parsed];
+      while (queue.length > 0) {
+        const item = queue.shift();
+        if (!item || typeof item !== 'object') continue;
+        const obj = item as Record<string, unknown>;
+        objects.push(obj);
+        if (Array.isArray(obj['@graph'])) queue.push(...obj['@graph']);
+      }
+    } catch {
+      // Malformed JSON-LD is common — ignore it
+    }
+  }
+  return objects;
+}
+
+function jsonLdAuthor(value: unknown): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    const names = value.map(jsonLdAuthor).filter((n): n is string => !!n);
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  if (typeof value === 'object' && typeof (value as { name?: unknown }).name === 'string') {
+    return (value as { name: string }).name;
+  }
+  return null;
+}
+
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Pick the container most likely to hold the article body: the largest <article>,
+// then <main>, then the whole <body>.
+function findContentContainer(html: string): string {
+  const articles = html.match(/<article\b[\s\S]*?<\/article>/gi);
+  if (articles && articles.length > 0) {
+    return articles.reduce((best, a) => (htmlToText(a).length > htmlToText(best).length ? a : best));
+  }
+  const main = html.match(/<main\b[\s\S]*?<\/main>/i);
+  if (main) return main[0];
+  const body = html.match(/<body\b[\s\S]*<\/body>/i);
+  return body ? body[0] : html;
+}
+
+function extractBodyText(html: string): string | null {
+  const container = findContentContainer(stripNoise(html));
+
+  const paragraphs: string[] = [];
+  const re = /<(p|h[2-4]|li|blockquote|pre)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(container)) !== null) {
+    const text = htmlToText(m[2]).replace(/\n+/g, ' ');
+    const isHeading = /^h/i.test(m[1]);
+    if (text.length >= MIN_PARAGRAPH_CHARS || (isHeading && text.length > 0 && paragraphs.length > 0)) {
+      paragraphs.push(text);
+    }
+  }
+
+  // Pages that don't use <p> (rare) — fall back to the container's plain text
+  const text = paragraphs.length > 0 ? paragraphs.join('\n\n') : htmlToText(container);
+  if (!text) return null;
+  return text.length > MAX_CONTENT_CHARS ? text.slice(0, MAX_CONTENT_CHARS) : text;
+}
+
+function findCanonicalUrl(html: string, baseUrl?: string): string | null {
+  let href: string | null = null;
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    const attrs = parseAttributes(tag);
+    if ((attrs.rel || '').toLowerCase().split(/\s+/).includes('canonical') && attrs.href?.trim()) {
+      href = attrs.href.trim();
+      break;
+    }
+  }
+  href = href || getMetaContent(html, ['og:url']);
+  if (!href) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function extractArticle(html: string, baseUrl?: string): ExtractedArticle {
+  const jsonLd = getJsonLdObjects(html);
+  const ldArticle = jsonLd.find(o => typeof o.headline === 'string' || typeof o.datePublished === 'string');
+
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+  const title = getMetaContent(html, ['og:title', 'twitter:title'])
+    || (typeof ldArticle?.headline === 'string' ? ldArticle.headline : null)
+    || (titleTag ? htmlToText(titleTag[1]) : null)
+    || (h1 ? htmlToText(h1[1]) : null);
+
+  // article:author is often a profile URL rather than a name
+  const metaAuthor = getMetaContent(html, ['author', 'article:author', 'parsely-author', 'sailthru.author']);
+  const byline = (metaAuthor && !/^https?:\/\//i.test(metaAuthor) ? metaAuthor : null)
+    || jsonLdAuthor(ldArticle?.author);
+
+  const timeTag = html.match(/<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i);
+  const published_at = toIsoDate(getMetaContent(html, ['article:published_time', 'datePublished', 'date', 'pubdate', 'publishdate', 'dc.date']))
+    || toIsoDate(typeof ldArticle?.datePublished === 'string' ? ldArticle.datePublished : null)
+    || toIsoDate(timeTag?.[1]);
+
+  return {
+    title: title?.trim() || null,
+    byline: byline?.trim() || null,
+    content: extractBodyText(html),
+    published_at,
+    canonical_url: findCanonicalUrl(html, baseUrl),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Bounded-concurrency task pool for outbound fetches.
+ * - Global cap on in-flight tasks
+ * - Per-host cap plus a minimum delay between request starts to the same host
+ * - Optional deadline: tasks not started by then are returned as skipped
+ *
+ * Workers are expected to handle their own errors; a throwing worker rejects the whole pool.
+ */
+
+export interface FetchPoolOptions {
+  concurrency: number;
+  perHostConcurrency: number;
+  perHostDelayMs: number;
+  /** Epoch ms after which no new task is started */
+  deadline?: number;
+}
+
+export interface FetchPoolResult<T, R> {
+  completed: R[];
+  skipped: T[];
+}
+
+// How long a lane waits before re-checking when every pending host is at its cap
+const BLOCKED_POLL_MS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function hostnameOf(url: string | undefined, fallback: string): string {
+  if (!url) return fallback;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return fallback;
+  }
+}
+
+export async function runFetchPool<T, R>(
+  items: T[],
+  hostOf: (item: T) => string,
+  worker: (item: T) => Promise<R>,
+  options: FetchPoolOptions
+): Promise<FetchPoolResult<T, R>> {
+  const pending = [...items];
+  const completed: R[] = [];
+  const activeByHost = new Map<string, number>();
+  const lastStartByHost = new Map<string, number>();
+
+  // Take the first pending item whose host is free, or report how long to wait
+  function takeNext(now: number): { item: T; host: string } | { waitMs: number } | null {
+    if (pending.length === 0) return null;
+    let waitMs = Infinity;
+    for (let i = 0; i < pending.length; i++) {
+      const host = hostOf(pending[i]);
+      if ((activeByHost.get(host) ?? 0) >= options.perHostConcurrency) {
+        waitMs = Math.min(waitMs, BLOCKED_POLL_MS);
+        continue;
+      }
+      const lastStart = lastStartByHost.get(host);
+      const sinceLast = lastStart === undefined ? Infinity : now - lastStart;
+      if (sinceLast < options.perHostDelayMs) {
+        waitMs = Math.min(waitMs, options.perHostDelayMs - sinceLast);
+        continue;
+      }
+      const [item] = pending.splice(i, 1);
+      return { item, host };
+    }
+    return { waitMs };
+  }
+
+  async function lane(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      if (options.deadline !== undefined && now >= options.deadline) return;
+
+      const next = takeNext(now);
+      if (!next) return;
+
+      if ('waitMs' in next) {
+        const untilDeadline = options.deadline !== undefined ? options.deadline - now : Infinity;
+        await sleep(Math.max(1, Math.min(next.waitMs, untilDeadline)));
+        continue;
+      }
+
+      const { item, host } = next;
+      activeByHost.set(host, (activeByHost.get(host) ?? 0) + 1);
+      lastStartByHost.set(host, Date.now());
+      try {
+        completed.push(await worker(item));
+      } finally {
+        activeByHost.set(host, (activeByHost.get(host) ?? 1) - 1);
+      }
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, () => lane()));
+
+  return { completed, skipped: pending };
+}
@@ -0,0 +1,89 @@
+/**
+ * Opt-in full-text enrichment (source config `fetch_full_text: true`): when a feed item's
+ * content is missing or too short to score, download the article page and use the
+ * extracted main text as raw_content instead. Page size is capped by fetchHtmlPage.
+ */
+
+import type { RawArticle } from '@/types';
+import { fetchHtmlPage } from './manual';
+import { extractArticle } from './extract';
+import { runFetchPool, hostnameOf } from './fetch-pool';
+import { isHomepage } from './canonical';
+import type { IngestionLogger } from './logger';
+
+// Feed content shorter than this is considered too thin to embed or score well
+const FULL_TEXT_MIN_CHARS = 200;
+const FULL_TEXT_MAX_PER_RUN = 150;
+const FULL_TEXT_CONCURRENCY = 4;
+// Article pages usually live on the same host as the feed, so be gentler than feed fetching
+const FULL_TEXT_PER_HOST_CONCURRENCY = 1;
+const FULL_TEXT_PER_HOST_DELAY_MS = 1500;
+const FULL_TEXT_TIME_BUDGET_MS = 60_000;
+
+export interface FullTextStats {
+  attempted: number;
+  enriched: number;
+  failed: number;
+  skipped: number;
+}
+
+export function wantsFullText(config: Record<string, unknown>): boolean {
+  return config.fetch_full_text === true;
+}
+
+export function isThinContent(content: string | null | undefined): boolean {
+  return (content?.trim().length ?? 0) < FULL_TEXT_MIN_CHARS;
+}
+
+export function needsFullText(article: RawArticle): boolean {
+  // Podcast/video items use their show notes on purpose — the page is just a player
+  if (article.media_type) return false;
+  return isThinContent(article.content);
+}
+
+/** Replace thin content with extracted page text, in place. Failures keep the feed content. */
+export async function enrichWithFullText(articles: RawArticle[], logger?: IngestionLogger): Promise<FullTextStats> {
+  const stats: FullTextStats = { attempted: 0, enriched: 0, failed: 0, skipped: 0 };
+  if (articles.length === 0) return stats;
+
+  const batch = articles.slice(0, FULL_TEXT_MAX_PER_RUN);
+  stats.skipped = articles.length - batch.length;
+
+  const { completed, skipped } = await runFetchPool(
+    batch,
+    article => hostnameOf(article.url, article.url),
+    async (article) => {
+      try {
+        const { html, finalUrl } = await fetchHtmlPage(article.url);
+        const extracted = extractArticle(html, finalUrl);
+        const text = extracted.content;
+        // The page knows its own canonical URL better than a HEAD redirect chain does
+        const canonical = extracted.canonical_url || finalUrl;
+        if (!isHomepage(canonical) || isHomepage(article.url)) {
+          article.canonical_url = canonical;
+        }
+        // Only swap in the page text if it actually beats what the feed gave us
+        if (text && text.length > (article.content?.trim().length ?? 0)) {
+          article.content = text;
+          return 'enriched' as const;
+        }
+        return 'failed' as const;
+      } catch (err) {
+        logger?.warn('full_text', `${article.url}: ${err instanceof Error ? err.message : String(err)}`);
+        return 'failed' as const;
+      }
+    },
+    {
+      concurrency: FULL_TEXT_CONCURRENCY,
+      perHostConcurrency: FULL_TEXT_PER_HOST_CONCURRENCY,
+      perHostDelayMs: FULL_TEXT_PER_HOST_DELAY_MS,
+      deadline: Date.now() + FULL_TEXT_TIME_BUDGET_MS,
+    }
+  );
+
+  stats.attempted = completed.length;
+  stats.enriched = completed.filter(r => r === 'enriched').length;
+  stats.failed = completed.filter(r => r === 'failed').length;
+  stats.skipped += skipped.length;
+  return stats;
+}
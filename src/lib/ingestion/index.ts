@@ -1,70 +1,176 @@
-import type { Source, RawArticle } from '@/types';
-import { getAllFetchableSources, updateSourceFetchStatus } from '../db/sources';
-import { createArticle, getRecentArticleExternalIds } from '../db/articles';
+import type { Source, RawArticle, Article } from '@/types';
+import { getAllFetchableSources, updateSourceFetchStatus, getOrCreateManualSource } from '../db/sources';
+import { createArticle, getRecentArticleExternalIds, updateArticleSignals, getArticlesMissingEmbeddings } from '../db/articles';
 import { fetchRssFeed, categorizeRssError } from './rss';
+import type { FeedFetchResult } from './rss';
+import { fetchJsonFeed } from './json-feed';
+import { fetchAggregator } from './aggregator';
+import { fetchManualUrl } from './manual';
+import { isSourceDue, scheduleNextFetch } from './scheduler';
+import { runFetchPool, hostnameOf } from './fetch-pool';
+import { wantsFullText, needsFullText, enrichWithFullText } from './full-text';
+import { resolveCanonicalUrls } from './canonical';
+import { clusterNewArticles } from './clustering';
+import type { EmbeddedArticle } from './clustering';
 import {
   generateEmbeddings,
   storeEmbedding,
   getArticleIdsWithEmbeddings,
+  getActiveEmbeddingModel,
   buildArticleEmbeddingText,
-  cosineSimilarity,
 } from '../embeddings';
-import { markSemanticDuplicate } from '../db/articles';
 import type { IngestionLogger } from './logger';
 
-interface IngestionResult {
+/** Fetch-stage counters, accumulated across the slices of a pipeline run */
+export interface IngestionResult {
+  sourcesDue: number;
+  sourcesSkipped: number;
+  sourcesOverBudget: number;
   totalFetched: number;
   newArticles: number;
   duplicates: number;
-  semanticDuplicates: number;
+  notModified: number;
+  fullTextFetched: number;
+  fullTextFailed: number;
+  errors: string[];
+}
+
+export interface EmbedResult {
   articlesEmbedded: number;
   embeddingTokens: number;
-  errors: string[];
+  storyClustered: number;
+  /** Embedding calls failed; the remaining articles fall back to LLM-only scoring */
+  failed: boolean;
+  /** Articles still waiting for an embedding after this batch */
+  hasMore: boolean;
 }
 
-async function fetchFromSource(source: Source): Promise<RawArticle[]> {
+export function emptyIngestionResult(): IngestionResult {
+  return {
+    sourcesDue: 0,
+    sourcesSkipped: 0,
+    sourcesOverBudget: 0,
+    totalFetched: 0,
+    newArticles: 0,
+    duplicates: 0,
+    notModified: 0,
+    fullTextFetched: 0,
+    fullTextFailed: 0,
+    errors: [],
+  };
+}
+
+async function fetchFromSource(source: Source): Promise<FeedFetchResult> {
   const cfg = source.config;
 
   switch (source.type) {
     case 'rss':
-      return fetchRssFeed(source.id, cfg.url as string, source.max_items);
+      return fetchRssFeed(source.id, cfg.url as string, source.max_items, {
+        etag: source.etag ?? null,
+        lastModified: source.last_modified ?? null,
+      });
+
+    case 'json_feed':
+      return fetchJsonFeed(source.id, cfg.url as string, source.max_items, {
+        etag: source.etag ?? null,
+        lastModified: source.last_modified ?? null,
+      });
+
+    case 'aggregator':
+      return fetchAggregator(source.id, cfg, source.max_items);
 
+    // Saved links are ingested when the user submits them (see saveManualUrl)
+    case 'manual_url':
     default:
-      return [];
+      return { articles: [], notModified: false, cacheHeaders: { etag: null, lastModified: null } };
   }
 }
 
-export async function runIngestion(provider: string, logger?: IngestionLogger): Promise<IngestionResult> {
-  const sources = await getAllFetchableSources();
-  const result: IngestionResult = {
-    totalFetched: 0,
-    newArticles: 0,
-    duplicates: 0,
-    semanticDuplicates: 0,
-    articlesEmbedded: 0,
-    embeddingTokens: 0,
-    errors: [],
-  };
+// Fetch pool limits. A fetch slice stops starting sources at the time budget (or the
+// caller's deadline, if sooner); the rest are fetched by the next slice of the run.
+const FETCH_CONCURRENCY = 8;
+const FETCH_PER_HOST_CONCURRENCY = 2;
+const FETCH_PER_HOST_DELAY_MS = 1000;
+const FETCH_TIME_BUDGET_MS = 120_000;
+
+// Articles embedded (and clustered) per batch
+const EMBED_BATCH_SIZE = 100;
 
-  logger?.log('fetch', `Fetching from ${sources.length} sources`);
+/** Sources to fetch in a run: every fetchable source if forced, otherwise those due under the adaptive schedule */
+export async function getSourcesForRun(force: boolean): Promise<{ sources: Source[]; skipped: number }> {
+  const fetchable = await getAllFetchableSources();
+  const sources = force ? fetchable : fetchable.filter(s => isSourceDue(s));
+  return { sources, skipped: fetchable.length - sources.length };
+}
 
-  // Fetch all sources in parallel, handling errors per-source
-  const fetchResults = await Promise.all(
-    sources.map(async (source) => {
+/**
+ * Fetch one slice of sources and store their new articles. Sources not started before the
+ * deadline are returned in `remaining` so the next slice can pick them up.
+ */
+export async function fetchSources(
+  sources: Source[],
+  provider: string,
+  logger?: IngestionLogger,
+  deadline: number = Date.now() + FETCH_TIME_BUDGET_MS
+): Promise<{ result: IngestionResult; remaining: Source[] }> {
+  const result = emptyIngestionResult();
+
+  logger?.log('fetch', `Fetching from ${sources.length} source(s)`);
+
+  // Fetch through a bounded pool (global + per-host limits), handling errors per-source
+  const { completed: fetchResults, skipped: overBudget } = await runFetchPool(
+    sources,
+    source => hostnameOf(source.config.url as string | undefined, source.id),
+    async (source) => {
       try {
-        const existingIds = await getRecentArticleExternalIds(source.id, provider);
-        const rawArticles = await fetchFromSource(source);
-        return { source, rawArticles, existingIds, error: null as string | null };
+        const fetched = await fetchFromSource(source);
+        const existingIds = fetched.notModified
+          ? new Set<string>()
+          : await getRecentArticleExternalIds(source.id, provider);
+        return { source, fetched, rawArticles: fetched.articles, existingIds, error: null as string | null };
       } catch (err) {
         const { status, message } = categorizeRssError(err);
         await updateSourceFetchStatus(source.id, message, status);
-        return { source, rawArticles: [] as RawArticle[], existingIds: new Set<string>(), error: message };
+        await scheduleNextFetch(source.id);
+        return { source, fetched: null, rawArticles: [] as RawArticle[], existingIds: new Set<string>(), error: message };
       }
-    })
+    },
+    {
+      concurrency: FETCH_CONCURRENCY,
+      perHostConcurrency: FETCH_PER_HOST_CONCURRENCY,
+      perHostDelayMs: FETCH_PER_HOST_DELAY_MS,
+      deadline: Math.min(deadline, Date.now() + FETCH_TIME_BUDGET_MS),
+    }
   );
 
-  // Track new articles for embedding
-  const newArticleData: { id: string; title: string; rawContent: string | null }[] = [];
+  if (overBudget.length > 0) {
+    result.sourcesOverBudget = overBudget.length;
+    logger?.log('fetch', `Fetch time budget reached — ${overBudget.length} source(s) left for the next slice`);
+  }
+
+  // Items not seen before from their source — the only ones worth extra HTTP requests
+  const unseen = fetchResults
+    .filter(r => !r.error && !r.fetched?.notModified)
+    .map(r => ({ source: r.source, articles: r.rawArticles.filter(raw => !(raw.external_id && r.existingIds.has(raw.external_id))) }));
+
+  // Sources with fetch_full_text: replace thin feed content of new items with the page text
+  const thinArticles = unseen
+    .filter(u => wantsFullText(u.source.config))
+    .flatMap(u => u.articles.filter(needsFullText));
+  if (thinArticles.length > 0) {
+    logger?.log('full_text', `Fetching full text for ${thinArticles.length} article(s) with thin feed content`);
+    const stats = await enrichWithFullText(thinArticles, logger);
+    result.fullTextFetched = stats.enriched;
+    result.fullTextFailed = stats.failed;
+    logger?.log('full_text', `Full text: ${stats.enriched} enriched, ${stats.failed} failed, ${stats.skipped} skipped (cap or time budget)`);
+  }
+
+  // Canonical URLs (rel=canonical from full text, else HEAD redirects) + tracking-param cleanup
+  const unseenArticles = unseen.flatMap(u => u.articles);
+  if (unseenArticles.length > 0) {
+    const canonical = await resolveCanonicalUrls(unseenArticles, logger);
+    logger?.log('canonical', `Canonical URLs: ${canonical.resolved} resolved via redirects, ${canonical.changed} differ from the feed link`);
+  }
 
   // Process results sequentially (DB writes)
   for (const fetchResult of fetchResults) {
@@ -76,7 +182,17 @@ export async function runIngestion(provider: string, logger?: IngestionLogger):
       continue;
     }
 
-    const { source, rawArticles, existingIds } = fetchResult;
+    const { source, fetched, rawArticles, existingIds } = fetchResult;
+
+    // 304 Not Modified: the feed hasn't changed since the last run
+    if (fetched?.notModified) {
+      result.notModified++;
+      await updateSourceFetchStatus(source.id, null, 'ok', 0);
+      await scheduleNextFetch(source.id);
+      logger?.log('fetch', `${source.name}: not modified (304)`);
+      continue;
+    }
+
     result.totalFetched += rawArticles.length;
 
     let sourceNew = 0;
@@ -86,6 +202,10 @@ export async function runIngestion(provider: string, logger?: IngestionLogger):
       if (raw.external_id && existingIds.has(raw.external_id)) {
         result.duplicates++;
         sourceDupes++;
+        // Aggregator items keep climbing after we first see them
+        if (raw.points != null || raw.comment_count != null) {
+          await updateArticleSignals(source.id, raw.external_id, provider, raw.points ?? null, raw.comment_count ?? null);
+        }
         continue;
       }
 
@@ -93,63 +213,80 @@ export async function runIngestion(provider: string, logger?: IngestionLogger):
       if (article) {
         result.newArticles++;
         sourceNew++;
-        newArticleData.push({ id: article.id, title: article.title, rawContent: article.raw_content });
       } else {
         result.duplicates++;
         sourceDupes++;
       }
     }
 
-    await updateSourceFetchStatus(source.id, null, 'ok', sourceNew);
+    await updateSourceFetchStatus(source.id, null, 'ok', sourceNew, fetched?.cacheHeaders);
+    await scheduleNextFetch(source.id);
     logger?.log('fetch', `${source.name}: ${sourceNew} new, ${sourceDupes} dupes (${rawArticles.length} fetched)`);
   }
 
-  logger?.log('fetch', `Ingestion done: ${result.newArticles} new, ${result.duplicates} dupes, ${result.errors.length} errors`);
+  logger?.log('fetch', `Fetch slice done: ${result.newArticles} new, ${result.duplicates} dupes, ${result.notModified} not modified, ${result.errors.length} errors`);
 
-  // Embed new articles that don't already have embeddings
-  if (newArticleData.length > 0) {
-    const embedResult = await embedNewArticles(newArticleData, logger);
-    result.articlesEmbedded = embedResult.count;
-    result.embeddingTokens = embedResult.tokens;
-    result.semanticDuplicates = embedResult.semanticDuplicates;
+  return { result, remaining: overBudget };
+}
+
+/**
+ * Embed one batch of articles ingested since `since` that have no embedding yet, then
+ * cluster the batch into stories. Saved links are embedded but never clustered.
+ */
+export async function embedPendingArticles(since: string, provider: string, logger?: IngestionLogger): Promise<EmbedResult> {
+  const pending = await getArticlesMissingEmbeddings(since, provider, await getActiveEmbeddingModel(), EMBED_BATCH_SIZE + 1);
+  const batch = pending.slice(0, EMBED_BATCH_SIZE);
+  const result: EmbedResult = { articlesEmbedded: 0, embeddingTokens: 0, storyClustered: 0, failed: false, hasMore: pending.length > EMBED_BATCH_SIZE };
+  if (batch.length === 0) return result;
+
+  const embedResult = await embedNewArticles(batch.map(a => ({ id: a.id, title: a.title, rawContent: a.raw_content })), logger);
+  result.articlesEmbedded = embedResult.count;
+  result.embeddingTokens = embedResult.tokens;
+  if (embedResult.count === 0) {
+    result.failed = true;
+    return result;
+  }
+
+  const manualIds = new Set(batch.filter(a => a.source_type === 'manual_url').map(a => a.id));
+  try {
+    const clusterStats = await clusterNewArticles(embedResult.embedded.filter(a => !manualIds.has(a.id)), provider, logger);
+    result.storyClustered = clusterStats.clustered;
+  } catch (error) {
+    logger?.warn('clustering', `Story clustering failed: ${error}`);
   }
 
   return result;
 }
 
-const SEMANTIC_DEDUP_THRESHOLD = 0.85;
+export interface SaveUrlResult {
+  article: Article | null;
+  duplicate: boolean;
+}
 
-function semanticDedup(
-  articles: { id: string; title: string; rawContent: string | null }[],
-  embeddings: number[][],
-  threshold: number
-): { keptIndices: number[]; duplicates: { index: number; duplicateOfIndex: number; similarity: number }[] } {
-  const duplicates: { index: number; duplicateOfIndex: number; similarity: number }[] = [];
-  const duplicateIndices = new Set<number>();
-
-  for (let i = 0; i < embeddings.length; i++) {
-    if (duplicateIndices.has(i)) continue;
-    for (let j = i + 1; j < embeddings.length; j++) {
-      if (duplicateIndices.has(j)) continue;
-      const sim = cosineSimilarity(embeddings[i], embeddings[j]);
-      if (sim >= threshold) {
-        duplicateIndices.add(j);
-        duplicates.push({ index: j, duplicateOfIndex: i, similarity: sim });
-      }
-    }
-  }
+/**
+ * Fetch a single user-submitted URL into the user's "Saved links" source and embed it.
+ * The article is picked up by the user's next relevance run like any other unscored article.
+ */
+export async function saveManualUrl(userId: string, url: string, provider: string): Promise<SaveUrlResult> {
+  const source = await getOrCreateManualSource(userId);
+  const raw = await fetchManualUrl(source.id, url);
+  await resolveCanonicalUrls([raw]);
 
-  const keptIndices = [];
-  for (let i = 0; i < articles.length; i++) {
-    if (!duplicateIndices.has(i)) keptIndices.push(i);
+  const article = await createArticle(raw, provider);
+  if (!article) {
+    return { article: null, duplicate: true };
   }
-  return { keptIndices, duplicates };
+
+  await embedNewArticles([{ id: article.id, title: article.title, rawContent: article.raw_content }]);
+  await updateSourceFetchStatus(source.id, null, 'ok', 1);
+
+  return { article, duplicate: false };
 }
 
 async function embedNewArticles(
   articles: { id: string; title: string; rawContent: string | null }[],
   logger?: IngestionLogger
-): Promise<{ count: number; tokens: number; semanticDuplicates: number }> {
+): Promise<{ count: number; tokens: number; embedded: EmbeddedArticle[] }> {
   try {
     // Filter out articles that already have embeddings (shouldn't happen for new articles, but be safe)
     const existingIds = await getArticleIdsWithEmbeddings(articles.map(a => a.id));
@@ -157,36 +294,26 @@ async function embedNewArticles(
 
     if (toEmbed.length === 0) {
       logger?.log('embedding', 'All articles already have embeddings');
-      return { count: 0, tokens: 0, semanticDuplicates: 0 };
+      return { count: 0, tokens: 0, embedded: [] };
     }
 
     logger?.log('embedding', `Generating embeddings for ${toEmbed.length} new articles`);
 
     const texts = toEmbed.map(a => buildArticleEmbeddingText(a.title, a.rawContent));
-    const { embeddings, totalTokens } = await generateEmbeddings(texts);
+    const { embeddings, totalTokens, model } = await generateEmbeddings(texts);
 
-    // Store all embeddings (duplicates still get embeddings)
     for (let i = 0; i < toEmbed.length; i++) {
-      await storeEmbedding('article', toEmbed[i].id, texts[i], embeddings[i]);
-    }
-
-    // Semantic dedup: mark later articles as duplicates of earlier ones
-    const { duplicates } = semanticDedup(toEmbed, embeddings, SEMANTIC_DEDUP_THRESHOLD);
-    for (const dup of duplicates) {
-      await markSemanticDuplicate(toEmbed[dup.index].id, toEmbed[dup.duplicateOfIndex].id);
-    }
-
-    if (duplicates.length > 0) {
-      logger?.log('dedup', `Marked ${duplicates.length} semantic duplicate(s)`);
-      for (const dup of duplicates) {
-        logger?.log('dedup', `  "${toEmbed[dup.index].title.slice(0, 60)}" ≈ "${toEmbed[dup.duplicateOfIndex].title.slice(0, 60)}" (${dup.similarity.toFixed(3)})`);
-      }
+      await storeEmbedding('article', toEmbed[i].id, texts[i], embeddings[i], model);
     }
 
     logger?.log('embedding', `Embedded ${toEmbed.length} articles (${totalTokens.toLocaleString()} tokens)`);
-    return { count: toEmbed.length, tokens: totalTokens, semanticDuplicates: duplicates.length };
+    return {
+      count: toEmbed.length,
+      tokens: totalTokens,
+      embedded: toEmbed.map((a, i) => ({ id: a.id, title: a.title, embedding: embeddings[i] })),
+    };
   } catch (error) {
     logger?.warn('embedding', `Article embedding failed (will fall back to LLM-only scoring): ${error}`);
-    return { count: 0, tokens: 0, semanticDuplicates: 0 };
+    return { count: 0, tokens: 0, embedded: [] };
   }
 }
@@ -0,0 +1,152 @@
+import type { RawArticle, MediaType } from '@/types';
+import { normalizeUrl } from './utils';
+import { htmlToText } from './extract';
+import { downloadFeed } from './rss';
+import type { FeedCacheHeaders, FeedFetchResult, FeedValidationResult } from './rss';
+
+// https://www.jsonfeed.org/version/1.1/ — only the fields we use
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+interface JsonFeedAttachment {
+  url?: string;
+  mime_type?: string;
+  duration_in_seconds?: number;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_text?: string;
+  content_html?: string;
+  summary?: string;
+  image?: string;
+  date_published?: string;
+  authors?: JsonFeedAuthor[];
+  author?: JsonFeedAuthor; // JSON Feed 1.0
+  attachments?: JsonFeedAttachment[];
+}
+
+interface JsonFeed {
+  version: string;
+  title?: string;
+  items: JsonFeedItem[];
+}
+
+const JSON_FEED_ACCEPT = 'application/feed+json, application/json;q=0.9, */*;q=0.8';
+
+// Items without a title (microblog posts) get one from the start of their text
+const UNTITLED_TITLE_LENGTH = 80;
+
+/** Cheap sniff used by the pre-check to tell JSON Feed apart from RSS/Atom. */
+export function looksLikeJsonFeed(body: string): boolean {
+  return body.trimStart().startsWith('{');
+}
+
+/** Parse and sanity-check a JSON Feed document. Errors say "Not a valid JSON Feed" so they categorize as parse_error. */
+export function parseJsonFeed(body: string): JsonFeed {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(body);
+  } catch (err) {
+    throw new Error(`Not a valid JSON Feed (${err instanceof Error ? err.message : String(err)})`);
+  }
+
+  const feed = doc as Partial<JsonFeed> | null;
+  if (!feed || typeof feed.version !== 'string' || !feed.version.startsWith('https://jsonfeed.org/version/')) {
+    throw new Error('Not a valid JSON Feed (missing version)');
+  }
+  if (!Array.isArray(feed.items)) {
+    throw new Error('Not a valid JSON Feed (missing items)');
+  }
+  return feed as JsonFeed;
+}
+
+function itemText(item: JsonFeedItem): string | null {
+  if (item.content_text?.trim()) return item.content_text.trim();
+  if (item.content_html) return htmlToText(item.content_html) || null;
+  return item.summary?.trim() || null;
+}
+
+function itemTitle(item: JsonFeedItem): string | null {
+  if (item.title?.trim()) return item.title.trim();
+  const text = itemText(item);
+  if (!text) return null;
+  return text.length > UNTITLED_TITLE_LENGTH ? `${text.slice(0, UNTITLED_TITLE_LENGTH).trimEnd()}…` : text;
+}
+
+function itemMedia(item: JsonFeedItem): { media_type: MediaType | null; media_url: string | null; duration_seconds: number | null } {
+  for (const att of item.attachments ?? []) {
+    const mime = att.mime_type || '';
+    const media_type: MediaType | null = mime.startsWith('audio/') ? 'audio' : mime.startsWith('video/') ? 'video' : null;
+    if (media_type && att.url) {
+      const duration = typeof att.duration_in_seconds === 'number' ? Math.round(att.duration_in_seconds) : null;
+      return { media_type, media_url: att.url, duration_seconds: duration };
+    }
+  }
+  return { media_type: null, media_url: null, duration_seconds: null };
+}
+
+export async function fetchJsonFeed(
+  sourceId: string,
+  feedUrl: string,
+  maxItems?: number,
+  cache?: FeedCacheHeaders
+): Promise<FeedFetchResult> {
+  const download = await downloadFeed(feedUrl, cache, JSON_FEED_ACCEPT);
+  if (download.notModified || download.body === null) {
+    return { articles: [], notModified: true, cacheHeaders: download.cacheHeaders };
+  }
+
+  const feed = parseJsonFeed(download.body);
+  const items = maxItems ? feed.items.slice(0, maxItems) : feed.items;
+  const articles: RawArticle[] = [];
+
+  for (const item of items) {
+    const link = item.url || item.external_url;
+    const title = itemTitle(item);
+    if (!title || !link) continue;
+
+    const url = normalizeUrl(link);
+    const media = itemMedia(item);
+    articles.push({
+      title,
+      url,
+      content: itemText(item),
+      // JSON Feed ids are required to be unique and stable, unlike links
+      external_id: item.id !== undefined && item.id !== '' ? String(item.id) : url,
+      published_at: item.date_published || null,
+      source_id: sourceId,
+      author: item.authors?.[0]?.name || item.author?.name || null,
+      media_type: media.media_type,
+      media_url: media.media_url,
+      duration_seconds: media.duration_seconds,
+      thumbnail_url: item.image || null,
+    });
+  }
+
+  return { articles, notModified: false, cacheHeaders: download.cacheHeaders };
+}
+
+/** Build a pre-check result from an already-downloaded JSON Feed document. Throws if it isn't one. */
+export function parseJsonFeedForValidation(body: string): FeedValidationResult {
+  const feed = parseJsonFeed(body);
+  const articles = feed.items
+    .filter(item => itemTitle(item) && (item.url || item.external_url))
+    .map(item => ({
+      title: itemTitle(item)!,
+      url: (item.url || item.external_url)!,
+      content: itemText(item),
+      published_at: item.date_published || null,
+    }));
+
+  return {
+    valid: true,
+    title: feed.title || null,
+    articles,
+    error: null,
+  };
+}
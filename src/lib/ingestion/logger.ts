@@ -1,10 +1,16 @@
 import type { LogEvent } from '@/types';
-import { createIngestionLog, completeIngestionLog } from '../db/ingestion-logs';
+import { createIngestionLog, completeIngestionLog, appendIngestionLogEvents } from '../db/ingestion-logs';
+
+// Buffered events are written at most this often, so the Logs tab can follow a run live
+const FLUSH_INTERVAL_MS = 2000;
 
 export class IngestionLogger {
   private events: LogEvent[] = [];
   private startTime: number;
   private logId: string | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private lastFlush = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(
     private userId: string,
@@ -18,6 +24,18 @@ export class IngestionLogger {
     this.logId = await createIngestionLog(this.userId, this.provider, this.trigger);
   }
 
+  /** Continue an existing log from a later invocation of the same run. */
+  static resume(logId: string, userId: string, provider: string, trigger: 'cron' | 'manual', startedAt: string): IngestionLogger {
+    const logger = new IngestionLogger(userId, provider, trigger);
+    logger.logId = logId;
+    logger.startTime = new Date(startedAt).getTime();
+    return logger;
+  }
+
+  get id(): string | null {
+    return this.logId;
+  }
+
   log(phase: string, message: string, data?: Record<string, unknown>) {
     this.addEvent('info', phase, message, data);
   }
@@ -48,11 +66,56 @@ export class IngestionLogger {
       message,
       ...(data ? { data } : {}),
     });
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (!this.logId || this.flushTimer) return;
+    const wait = Math.max(0, this.lastFlush + FLUSH_INTERVAL_MS - Date.now());
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.enqueueWrite().catch(err => console.warn('Ingestion log flush failed:', err));
+    }, wait);
+    this.flushTimer.unref?.();
+  }
+
+  /** Append buffered events (and optionally a new summary), one write at a time, in order. */
+  private enqueueWrite(summary?: Record<string, unknown>): Promise<void> {
+    const write = this.writes.then(async () => {
+      if (!this.logId || (this.events.length === 0 && !summary)) return;
+      this.lastFlush = Date.now();
+      const events = this.events;
+      this.events = [];
+      try {
+        await appendIngestionLogEvents(this.logId, summary, events);
+      } catch (err) {
+        // Keep them for the next write rather than losing them
+        this.events = [...events, ...this.events];
+        throw err;
+      }
+    });
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  private cancelFlush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+  }
+
+  /** Write buffered events without closing the log; the run carries on in a later invocation. */
+  async flush(summary?: Record<string, unknown>) {
+    this.cancelFlush();
+    await this.enqueueWrite(summary);
   }
 
   async persist(status: 'success' | 'error', summary: Record<string, unknown>, error?: string) {
     if (!this.logId) return;
+    this.cancelFlush();
+    await this.writes;
     const durationMs = Date.now() - this.startTime;
-    await completeIngestionLog(this.logId, status, durationMs, summary, this.events, error);
+    const events = this.events;
+    this.events = [];
+    await completeIngestionLog(this.logId, status, durationMs, summary, events, error);
   }
 }
@@ -0,0 +1,98 @@
+import type { RawArticle } from '@/types';
+import { normalizeUrl, FETCH_USER_AGENT } from './utils';
+import { extractArticle } from './extract';
+import { assertPublicUrl } from '../utils/network';
+
+const PAGE_TIMEOUT_MS = 10000;
+const MAX_PAGE_BYTES = 3 * 1024 * 1024; // 3 MB — enough for any article page
+const MAX_REDIRECTS = 5;
+
+export interface FetchedPage {
+  html: string;
+  finalUrl: string;
+}
+
+/**
+ * Download an HTML page with a timeout and a size cap. The URL and every redirect target must
+ * resolve to a public address, so a saved link can't reach the server's own network.
+ * Errors use the "Status code NNN" wording so categorizeRssError() can classify them.
+ */
+export async function fetchHtmlPage(url: string): Promise<FetchedPage> {
+  const signal = AbortSignal.timeout(PAGE_TIMEOUT_MS);
+  let currentUrl = url;
+  let res: Response;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(currentUrl);
+    res = await fetch(currentUrl, {
+      redirect: 'manual',
+      signal,
+      headers: {
+        'User-Agent': FETCH_USER_AGENT,
+        'Accept': 'text/html, application/xhtml+xml, */*;q=0.8',
+      },
+    });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+    if (!location) break;
+    if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    await res.body?.cancel();
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  if (!res.ok) {
+    throw new Error(`Status code ${res.status}`);
+  }
+
+  const contentType = res.headers.get('content-type') || '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    throw new Error(`Not a valid HTML page (content-type: ${contentType})`);
+  }
+
+  // Stream the body so a huge page can't blow up memory
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  if (res.body) {
+    const reader = res.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > MAX_PAGE_BYTES) {
+        await reader.cancel();
+        break;
+      }
+      chunks.push(value);
+    }
+  }
+
+  const html = Buffer.concat(chunks).toString('utf8');
+  return { html, finalUrl: currentUrl };
+}
+
+/**
+ * Fetch a single user-submitted page and turn it into a RawArticle.
+ */
+export async function fetchManualUrl(sourceId: string, url: string): Promise<RawArticle> {
+  const { html, finalUrl } = await fetchHtmlPage(url);
+  const extracted = extractArticle(html, finalUrl);
+
+  let title = extracted.title;
+  if (!title) {
+    try {
+      title = new URL(finalUrl).hostname.replace(/^www\./, '');
+    } catch {
+      title = finalUrl;
+    }
+  }
+
+  const normalized = normalizeUrl(url);
+  return {
+    title,
+    url: normalized,
+    content: extracted.content,
+    external_id: normalized,
+    published_at: extracted.published_at,
+    source_id: sourceId,
+    canonical_url: extracted.canonical_url || finalUrl,
+    author: extracted.byline,
+  };
+}
@@ -1,17 +1,130 @@
 import Parser from 'rss-parser';
-import type { RawArticle } from '@/types';
-import { normalizeUrl } from './utils';
-
-const parser = new Parser({
-  timeout: 10000,
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-    'Accept': 'application/rss+xml, application/xml, text/xml, */*',
+import type { RawArticle, MediaType } from '@/types';
+import { normalizeUrl, parseDuration, FETCH_USER_AGENT } from './utils';
+import { htmlToText } from './extract';
+
+type MediaElement = { $?: Record<string, string> };
+type MediaText = string | { _?: string };
+
+// Podcast and video fields beyond rss-parser's defaults (YouTube puts everything in media:group)
+interface FeedItemExtras {
+  itunes?: { summary?: string; subtitle?: string; duration?: string; image?: string; author?: string };
+  mediaGroup?: {
+    'media:description'?: MediaText[];
+    'media:thumbnail'?: MediaElement[];
+    'media:content'?: MediaElement[];
+  };
+  mediaContent?: MediaElement;
+  mediaThumbnail?: MediaElement;
+  // A string, or { _, $ } when the element has attributes (<media:description type="plain">)
+  mediaDescription?: MediaText;
+}
+
+type FeedItem = Parser.Item & FeedItemExtras;
+
+const FEED_TIMEOUT_MS = 10000;
+
+// Feeds are downloaded with fetch() (so we can see caching headers) and handed to parseString()
+const parser = new Parser<Record<string, unknown>, FeedItemExtras>({
+  customFields: {
+    item: [
+      ['media:group', 'mediaGroup'],
+      ['media:content', 'mediaContent'],
+      ['media:thumbnail', 'mediaThumbnail'],
+      ['media:description', 'mediaDescription'],
+    ],
   },
 });
 
+interface FeedItemMedia {
+  media_type: MediaType | null;
+  media_url: string | null;
+  duration_seconds: number | null;
+  thumbnail_url: string | null;
+  description: string | null;
+}
+
+function mediaText(value: MediaText | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value._ ?? null;
+}
+
+function firstText(values: MediaText[] | undefined): string | null {
+  return mediaText(values?.[0]);
+}
+
+function mediaTypeFromMime(mime: string | undefined): MediaType | null {
+  if (!mime) return null;
+  if (mime.startsWith('audio/') || mime === 'audio') return 'audio';
+  if (mime.startsWith('video/') || mime === 'video') return 'video';
+  return null;
+}
+
+function mediaTypeFromUrl(url: string | undefined): MediaType | null {
+  if (!url) return null;
+  if (/\.(mp3|m4a|aac|ogg|opus|wav)(\?|$)/i.test(url)) return 'audio';
+  if (/\.(mp4|m4v|mov|webm)(\?|$)/i.test(url)) return 'video';
+  return null;
+}
+
+function isYouTubeLink(link: string | undefined): boolean {
+  if (!link) return false;
+  try {
+    const host = new URL(link).hostname;
+    return host === 'youtu.be' || host === 'youtube.com' || host.endsWith('.youtube.com');
+  } catch {
+    return false;
+  }
+}
+
+function extractMedia(item: FeedItem, feedImage?: string): FeedItemMedia {
+  const groupContent = item.mediaGroup?.['media:content']?.[0]?.$;
+  const content = item.mediaContent?.$ ?? groupContent;
+  const enclosure = item.enclosure;
+
+  const media_url = enclosure?.url || content?.url || null;
+  let media_type = mediaTypeFromMime(enclosure?.type)
+    ?? mediaTypeFromMime(content?.type)
+    ?? mediaTypeFromMime(content?.medium)
+    ?? mediaTypeFromUrl(media_url ?? undefined);
+  if (!media_type && item.mediaGroup && isYouTubeLink(item.link)) {
+    media_type = 'video';
+  }
+
+  const duration_seconds = parseDuration(item.itunes?.duration) ?? parseDuration(content?.duration);
+
+  const thumbnail_url = item.itunes?.image
+    || item.mediaThumbnail?.$?.url
+    || item.mediaGroup?.['media:thumbnail']?.[0]?.$?.url
+    || (media_type === 'audio' ? feedImage : undefined)
+    || null;
+
+  const rawDescription = item.itunes?.summary
+    || firstText(item.mediaGroup?.['media:description'])
+    || mediaText(item.mediaDescription)
+    || item.itunes?.subtitle
+    || null;
+  const description = rawDescription ? htmlToText(rawDescription) || null : null;
+
+  return { media_type, media_url, duration_seconds, thumbnail_url, description };
+}
+
+// Media items use their description (show notes, video description) as content —
+// that is what the embedding and the LLM prompt have to work with.
+function itemContent(item: FeedItem, media: FeedItemMedia): string | null {
+  const text = item.contentSnippet || item.content || item.summary || null;
+  if (media.media_type && media.description) return media.description;
+  return text || media.description;
+}
+
 export function categorizeRssError(error: unknown): { status: string; message: string } {
-  const msg = error instanceof Error ? error.message : String(error);
+  let msg = error instanceof Error ? error.message : String(error);
+
+  // fetch() reports network failures as "fetch failed" with the real reason in `cause`
+  const cause = error instanceof Error ? (error.cause as { code?: string; message?: string } | undefined) : undefined;
+  if (cause && (cause.code || cause.message)) {
+    msg = `${msg} (${cause.code || cause.message})`;
+  }
 
   // HTTP status code errors (e.g., "Status code 403")
   const statusMatch = msg.match(/status\s*code\s*(\d{3})/i);
@@ -29,37 +142,103 @@ export function categorizeRssError(error: unknown): { status: string; message: s
     return { status: 'connection_error', message: msg };
   }
 
-  // Parse errors
-  if (/parse|invalid xml|not a valid/i.test(msg)) {
+  // Parse errors (JSON.parse messages are matched specifically, so other errors that mention JSON aren't)
+  if (/parse|invalid xml|not a valid|unexpected token|unexpected end of json|is not valid json|in json at position/i.test(msg)) {
     return { status: 'parse_error', message: msg };
   }
 
   return { status: 'unknown_error', message: msg };
 }
 
+// Conditional GET validators stored per source
+export interface FeedCacheHeaders {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export interface FeedDownload {
+  body: string | null;
+  notModified: boolean;
+  cacheHeaders: FeedCacheHeaders;
+}
+
+const RSS_ACCEPT = 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*';
+
+/** Conditional GET for a feed URL. Shared by the RSS and JSON Feed fetchers. */
+export async function downloadFeed(feedUrl: string, cache?: FeedCacheHeaders, accept: string = RSS_ACCEPT): Promise<FeedDownload> {
+  const headers: Record<string, string> = {
+    'User-Agent': FETCH_USER_AGENT,
+    'Accept': accept,
+  };
+  if (cache?.etag) headers['If-None-Match'] = cache.etag;
+  if (cache?.lastModified) headers['If-Modified-Since'] = cache.lastModified;
+
+  const res = await fetch(feedUrl, {
+    headers,
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+  });
+
+  if (res.status === 304) {
+    return { body: null, notModified: true, cacheHeaders: cache ?? { etag: null, lastModified: null } };
+  }
+  if (!res.ok) {
+    throw new Error(`Status code ${res.status}`);
+  }
+
+  return {
+    body: await res.text(),
+    notModified: false,
+    cacheHeaders: {
+      etag: res.headers.get('etag'),
+      lastModified: res.headers.get('last-modified'),
+    },
+  };
+}
+
+export interface FeedFetchResult {
+  articles: RawArticle[];
+  /** True when the server answered 304 — nothing changed since the last fetch */
+  notModified: boolean;
+  cacheHeaders: FeedCacheHeaders;
+}
+
 export async function fetchRssFeed(
   sourceId: string,
   feedUrl: string,
-  maxItems?: number
-): Promise<RawArticle[]> {
-  const feed = await parser.parseURL(feedUrl);
+  maxItems?: number,
+  cache?: FeedCacheHeaders
+): Promise<FeedFetchResult> {
+  const download = await downloadFeed(feedUrl, cache);
+  if (download.notModified || download.body === null) {
+    return { articles: [], notModified: true, cacheHeaders: download.cacheHeaders };
+  }
+
+  const feed = await parser.parseString(download.body);
   const articles: RawArticle[] = [];
   const items = maxItems ? feed.items.slice(0, maxItems) : feed.items;
 
   for (const item of items) {
     if (!item.title || !item.link) continue;
 
+    const media = extractMedia(item, feed.itunes?.image);
+
     articles.push({
       title: item.title,
       url: normalizeUrl(item.link),
-      content: item.contentSnippet || item.content || item.summary || null,
+      content: itemContent(item, media),
       external_id: normalizeUrl(item.link),
       published_at: item.isoDate || item.pubDate || null,
       source_id: sourceId,
+      author: item.creator || item.itunes?.author || null,
+      media_type: media.media_type,
+      media_url: media.media_url,
+      duration_seconds: media.duration_seconds,
+      thumbnail_url: media.thumbnail_url,
     });
   }
 
-  return articles;
+  return { articles, notModified: false, cacheHeaders: download.cacheHeaders };
 }
 
 export interface FeedValidationResult {
@@ -74,31 +253,22 @@ export interface FeedValidationResult {
   error: string | null;
 }
 
-export async function validateRssFeed(feedUrl: string): Promise<FeedValidationResult> {
-  try {
-    const feed = await parser.parseURL(feedUrl);
-    const articles = feed.items
-      .filter(item => item.title && item.link)
-      .map(item => ({
-        title: item.title!,
-        url: item.link!,
-        content: item.contentSnippet || item.content || item.summary || null,
-        published_at: item.isoDate || item.pubDate || null,
-      }));
-
-    return {
-      valid: true,
-      title: feed.title || null,
-      articles,
-      error: null,
-    };
-  } catch (err) {
-    const { message } = categorizeRssError(err);
-    return {
-      valid: false,
-      title: null,
-      articles: [],
-      error: message,
-    };
-  }
+/** Parse an already-downloaded RSS/Atom document for the pre-check. Throws on invalid XML. */
+export async function parseRssForValidation(xml: string): Promise<FeedValidationResult> {
+  const feed = await parser.parseString(xml);
+  const articles = feed.items
+    .filter(item => item.title && item.link)
+    .map(item => ({
+      title: item.title!,
+      url: item.link!,
+      content: itemContent(item, extractMedia(item)),
+      published_at: item.isoDate || item.pubDate || null,
+    }));
+
+  return {
+    valid: true,
+    title: feed.title || null,
+    articles,
+    error: null,
+  };
 }
@@ -0,0 +1,60 @@
+import type { Source } from '@/types';
+import { getSourceById, setSourceNextFetchAt } from '../db/sources';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const MIN_INTERVAL_MS = 1 * HOUR;      // busiest feeds
+const MAX_ACTIVE_INTERVAL_MS = DAY;    // feeds that still publish, however rarely
+const DORMANT_INTERVAL_MS = 3 * DAY;   // nothing new in 14 days
+const MAX_ERROR_BACKOFF_MS = 7 * DAY;
+const DORMANT_AFTER_MS = 14 * DAY;
+
+// Jitter only ever pulls the next fetch earlier, so a source never slips a whole cron cycle
+const MAX_JITTER = 0.1;
+
+/**
+ * Pick how long to wait before fetching a source again, based on its publishing
+ * cadence (articles_14d, last_new_article_at) and its error streak (consecutive_errors).
+ * Expects the stats already updated for the fetch that just finished.
+ */
+export function computeFetchInterval(source: Source, now: number = Date.now()): number {
+  const errors = source.consecutive_errors ?? 0;
+  if (errors > 0) {
+    // Exponential backoff: 1h, 2h, 4h, ... capped at a week
+    return Math.min(MIN_INTERVAL_MS * 2 ** (errors - 1), MAX_ERROR_BACKOFF_MS);
+  }
+
+  const lastNew = source.last_new_article_at ? new Date(source.last_new_article_at).getTime() : null;
+  const count = source.articles_14d ?? 0;
+
+  if (count === 0 && (lastNew === null || now - lastNew > DORMANT_AFTER_MS)) {
+    return DORMANT_INTERVAL_MS;
+  }
+
+  // Poll roughly once per expected new article
+  const perDay = count / 14;
+  const interval = perDay > 0 ? DAY / perDay : MAX_ACTIVE_INTERVAL_MS;
+  return Math.min(Math.max(interval, MIN_INTERVAL_MS), MAX_ACTIVE_INTERVAL_MS);
+}
+
+export function isSourceDue(source: Source, now: number = Date.now()): boolean {
+  if (!source.next_fetch_at) return true;
+  return new Date(source.next_fetch_at).getTime() <= now;
+}
+
+/**
+ * Re-read the source's fetch stats and store its next fetch time.
+ */
+export async function scheduleNextFetch(sourceId: string): Promise<Date | null> {
+  const source = await getSourceById(sourceId);
+  if (!source) return null;
+
+  const now = Date.now();
+  const interval = computeFetchInterval(source, now);
+  const jittered = interval * (1 - Math.random() * MAX_JITTER);
+  const nextFetchAt = new Date(now + jittered);
+
+  await setSourceNextFetchAt(sourceId, nextFetchAt);
+  return nextFetchAt;
+}
@@ -1,3 +1,6 @@
+// Browser-like UA: several publishers reject requests from unknown clients
+export const FETCH_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
 /**
  * Normalize a URL for deduplication:
  * - Strip utm_* and tracking params
@@ -42,3 +45,21 @@ export function hashString(str: string): string {
   }
   return Math.abs(hash).toString(36);
 }
+
+/**
+ * Parse a media duration into seconds. Accepts plain seconds ("1834"),
+ * "MM:SS" and "HH:MM:SS" as used by itunes:duration.
+ */
+export function parseDuration(raw: string | number | null | undefined): number | null {
+  if (raw === null || raw === undefined) return null;
+  const value = String(raw).trim();
+  if (!value) return null;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value));
+  }
+
+  const parts = value.split(':');
+  if (parts.length > 3 || !parts.every(p => /^\d+$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
@@ -0,0 +1,50 @@
+import type { SourceType } from '@/types';
+import { downloadFeed, parseRssForValidation, categorizeRssError } from './rss';
+import type { FeedValidationResult } from './rss';
+import { looksLikeJsonFeed, parseJsonFeedForValidation } from './json-feed';
+import { detectAggregatorSite, validateAggregator, AGGREGATOR_SITES } from './aggregator';
+
+export type FeedSourceType = Extract<SourceType, 'rss' | 'json_feed' | 'aggregator'>;
+
+export interface DetectedFeedValidation extends FeedValidationResult {
+  /** Source type to create for this URL; null when the URL isn't a usable feed */
+  type: FeedSourceType | null;
+  /** Source config to create with (aggregators use their listing endpoint, not the pasted URL) */
+  config: Record<string, unknown> | null;
+}
+
+const ANY_FEED_ACCEPT = 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json;q=0.9, */*;q=0.8';
+
+/**
+ * Pre-check a feed URL of unknown format. Known aggregator sites are read through
+ * their listing API; anything else is downloaded once and parsed as JSON Feed or
+ * RSS/Atom depending on what came back.
+ */
+export async function validateFeed(feedUrl: string): Promise<DetectedFeedValidation> {
+  const site = detectAggregatorSite(feedUrl);
+  if (site) {
+    const result = await validateAggregator(site);
+    return result.valid
+      ? { ...result, type: 'aggregator', config: { site, url: AGGREGATOR_SITES[site].listingUrl } }
+      : { ...result, type: null, config: null };
+  }
+
+  try {
+    const { body } = await downloadFeed(feedUrl, undefined, ANY_FEED_ACCEPT);
+    const text = body ?? '';
+    if (looksLikeJsonFeed(text)) {
+      return { ...parseJsonFeedForValidation(text), type: 'json_feed', config: { url: feedUrl } };
+    }
+    return { ...(await parseRssForValidation(text)), type: 'rss', config: { url: feedUrl } };
+  } catch (err) {
+    const { message } = categorizeRssError(err);
+    return {
+      valid: false,
+      title: null,
+      articles: [],
+      error: message,
+      type: null,
+      config: null,
+    };
+  }
+}
@@ -1,5 +1,8 @@
 import { llmComplete } from './llm';
 
+// Expansions only change when the interest text does, so they can be reused for a long time
+const EXPANSION_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 /**
  * Uses the LLM to expand a short interest description into a rich, 150-200 word
  * paragraph that captures the full semantic range — subtopics, related terminology,
@@ -21,7 +24,7 @@ Description: "${description || 'No additional description provided.'}"
 
 Expanded description:`;
 
-  const response = await llmComplete(prompt, 1024);
+  const response = await llmComplete(prompt, 1024, { cacheTtlMs: EXPANSION_CACHE_TTL_MS });
   if (!response?.text) return null;
 
   const text = response.text.trim();
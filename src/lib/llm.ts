@@ -1,8 +1,10 @@
+import { createHash } from 'node:crypto';
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import { config } from './config';
 import { getGlobalSetting } from './db/settings';
 import { getDb } from './db/index';
+import { getCachedLlmResponse, setCachedLlmResponse } from './db/llm-cache';
 
 export type LlmProvider = 'anthropic' | 'synthetic' | 'openai';
 
@@ -26,8 +28,19 @@ export interface LlmUsage {
 interface LlmResponse {
   text: string;
   usage?: LlmUsage;
+  /** Served from llm_cache (no usage — nothing was spent). Unset when the caller didn't opt in. */
+  cached?: boolean;
 }
 
+export interface LlmCompleteOptions {
+  /** Opt in to the response cache: reuse an identical earlier completion for this long */
+  cacheTtlMs?: number;
+  /** Only cache a reply this accepts, so one the caller can't use isn't replayed for the whole TTL */
+  validate?: (text: string) => boolean;
+}
+
+export const DEFAULT_LLM_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 let anthropicClient: Anthropic | null = null;
 let syntheticClient: OpenAI | null = null;
 let openaiClient: OpenAI | null = null;
@@ -82,9 +95,39 @@ async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export async function llmComplete(prompt: string, maxTokens: number = 4096): Promise<LlmResponse | null> {
+function modelForProvider(provider: LlmProvider): string {
+  if (provider === 'synthetic') return config.syntheticModel;
+  if (provider === 'openai') return config.openaiModel;
+  return config.claudeModel;
+}
+
+function llmCacheKey(provider: LlmProvider, model: string, maxTokens: number, prompt: string): string {
+  return createHash('sha256').update(`${provider}\n${model}\n${maxTokens}\n${prompt}`).digest('hex');
+}
+
+export async function llmComplete(prompt: string, maxTokens: number = 4096, options: LlmCompleteOptions = {}): Promise<LlmResponse | null> {
   const provider = await getActiveProvider();
+  if (!options.cacheTtlMs) return completeWithProvider(provider, prompt, maxTokens);
+
+  const model = modelForProvider(provider);
+  const cacheKey = llmCacheKey(provider, model, maxTokens, prompt);
+  try {
+    const hit = await getCachedLlmResponse(cacheKey);
+    if (hit) return { text: hit.response_text, cached: true };
+  } catch (err) {
+    console.warn('[llm] Cache lookup failed:', err);
+  }
+
+  const response = await completeWithProvider(provider, prompt, maxTokens);
+  if (!response) return null;
+  if (response.text && (!options.validate || options.validate(response.text))) {
+    await setCachedLlmResponse(cacheKey, provider, model, response.text, response.usage ?? null, options.cacheTtlMs)
+      .catch(err => console.warn('[llm] Cache write failed:', err));
+  }
+  return { ...response, cached: false };
+}
 
+async function completeWithProvider(provider: LlmProvider, prompt: string, maxTokens: number): Promise<LlmResponse | null> {
   if (provider === 'synthetic') {
     const client = getSyntheticClient();
     if (!client) return null;
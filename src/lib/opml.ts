@@ -0,0 +1,50 @@
+import { parseAttributes } from './ingestion/extract';
+import { escapeXml } from './utils/xml';
+
+export interface OpmlFeed {
+  name: string;
+  url: string;
+}
+
+/**
+ * Extract feed outlines (any <outline> with an xmlUrl) from an OPML document.
+ * Nested folders are flattened. Outlines with invalid URLs are dropped.
+ */
+export function parseOpml(xml: string): OpmlFeed[] {
+  if (!/<opml\b/i.test(xml)) {
+    throw new Error('Not an OPML document');
+  }
+
+  const feeds: OpmlFeed[] = [];
+  for (const tag of xml.match(/<outline\b[^>]*>/gi) ?? []) {
+    const attrs = parseAttributes(tag);
+    const rawUrl = attrs.xmlurl?.trim();
+    if (!rawUrl) continue;
+    try {
+      const url = new URL(rawUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+    } catch {
+      continue; // they'll never work as feeds
+    }
+    feeds.push({ name: (attrs.title || attrs.text || '').trim(), url: rawUrl });
+  }
+  return feeds;
+}
+
+export function buildOpml(title: string, feeds: OpmlFeed[]): string {
+  const outlines = feeds
+    .map(f => `    <outline type="rss" text="${escapeXml(f.name)}" title="${escapeXml(f.name)}" xmlUrl="${escapeXml(f.url)}"/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(title)}</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+  </head>
+  <body>
+${outlines}
+  </body>
+</opml>
+`;
+}
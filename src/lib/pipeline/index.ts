@@ -0,0 +1,251 @@
+/**
+ * Resumable pipeline. A run is split into persisted jobs — fetch and embed once, then score,
+ * digest and (weekly) analysis per user, then cleanup — and each invocation works through as
+ * many as fit in its time budget before checkpointing. Whatever triggers next (cron, scheduler,
+ * a manual refresh) picks the run up where the last invocation stopped, so a run survives the
+ * serverless timeout. Only one run is active at a time; a trigger that finds one running adds
+ * its users to it instead of starting another.
+ */
+
+import type { IngestionRun, IngestionRunTrigger, PipelineJob, PipelineProgress, User } from '@/types';
+import {
+  tryStartIngestionRun,
+  getRunningIngestionRun,
+  heartbeatIngestionRun,
+  setIngestionRunLog,
+  finishIngestionRun,
+} from '../db/ingestion-runs';
+import { markStaleLogsAsTimedOut } from '../db/ingestion-logs';
+import {
+  createPipelineJobs,
+  claimPipelineJob,
+  checkpointPipelineJob,
+  completePipelineJob,
+  failPipelineJob,
+  getPipelineJobs,
+} from '../db/pipeline-jobs';
+import type { NewPipelineJob } from '../db/pipeline-jobs';
+import { getAllActiveUsers } from '../db/users';
+import { claimWeeklyAnalysis } from '../relevance';
+import { IngestionLogger } from '../ingestion/logger';
+import { STAGES } from './stages';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Longer than the 5 minute function limit, so a lease only runs out once its invocation is gone
+const JOB_LEASE_MS = 6 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 3;
+// Don't start a job with less than this left in the budget
+const MIN_SLICE_MS = 60 * 1000;
+
+export interface PipelineRequest {
+  trigger: IngestionRunTrigger;
+  /** User who asked for the run (manual triggers) */
+  triggeredBy: string | null;
+  provider: string;
+  /** Users who need scoring from this run */
+  users: User[];
+  /** Users who also get a digest: those whose schedule is due (claimScheduledDigests), or the manual requester */
+  digestUsers?: User[];
+  /** Fetch every source, not just the due ones (only applies when starting a run) */
+  force?: boolean;
+  /** Time this invocation may spend; omit to work until the queue is empty */
+  budgetMs?: number;
+}
+
+export interface PipelineSliceResult {
+  run: IngestionRun;
+  /** True when this invocation started the run, false when it joined one in progress */
+  started: boolean;
+  done: boolean;
+  jobsProcessed: number;
+  progress: PipelineProgress;
+  summary: Record<string, unknown>;
+}
+
+export function summarizeJobProgress(jobs: PipelineJob[]): PipelineProgress {
+  const progress: PipelineProgress = { total: jobs.length, done: 0, failed: 0, running: 0, pending: 0, stages: {} };
+  for (const job of jobs) {
+    progress[job.status]++;
+    const stage = progress.stages[job.stage] ?? { total: 0, done: 0, failed: 0 };
+    stage.total++;
+    if (job.status === 'done') stage.done++;
+    if (job.status === 'failed') stage.failed++;
+    progress.stages[job.stage] = stage;
+  }
+  return progress;
+}
+
+/** Roll job results up into the log summary shape the Logs tab already knows. */
+function buildRunSummary(jobs: PipelineJob[]): Record<string, unknown> {
+  const fetch = jobs.find(j => j.stage === 'fetch')?.result ?? {};
+  const embed = jobs.find(j => j.stage === 'embed')?.result ?? {};
+  const { errors, ...fetchCounts } = fetch as { errors?: string[] } & Record<string, unknown>;
+
+  const userResults: Record<string, Record<string, unknown>> = {};
+  for (const job of jobs) {
+    if (!job.user_id || (job.stage !== 'score' && job.stage !== 'digest')) continue;
+    userResults[job.user_id] = { ...userResults[job.user_id], ...job.result };
+  }
+
+  const sumUsers = (key: string) =>
+    Object.values(userResults).reduce((sum, r) => sum + (Number(r[key]) || 0), 0);
+
+  return {
+    ...fetchCounts,
+    ...embed,
+    llmCacheHits: sumUsers('llmCacheHits'),
+    llmCacheMisses: sumUsers('llmCacheMisses'),
+    errorCount: (errors?.length ?? 0) + jobs.filter(j => j.status === 'failed').length,
+    userResults,
+    progress: summarizeJobProgress(jobs),
+  };
+}
+
+/** Score jobs for every requested user; digest jobs only for `digestUsers`. */
+function userJobs(req: PipelineRequest): NewPipelineJob[] {
+  const digestUsers = req.digestUsers ?? [];
+  const scoreIds = new Set([...req.users, ...digestUsers].map(u => u.id));
+  return [
+    ...[...scoreIds].map(userId => ({ stage: 'score' as const, stageOrder: STAGES.score.order, userId })),
+    ...digestUsers.map(user => ({ stage: 'digest' as const, stageOrder: STAGES.digest.order, userId: user.id })),
+  ];
+}
+
+async function startRun(req: PipelineRequest): Promise<{ run: IngestionRun; started: boolean }> {
+  // The active run can finish between our insert and lookup; one retry covers that
+  for (let i = 0; i < 2; i++) {
+    const run = await tryStartIngestionRun(req.trigger, req.triggeredBy, req.provider, { force: !!req.force });
+    if (run) return { run, started: true };
+    const running = await getRunningIngestionRun();
+    if (running) return { run: running, started: false };
+  }
+  throw new Error('Could not start or join a pipeline run');
+}
+
+async function openLogger(run: IngestionRun, started: boolean, req: PipelineRequest): Promise<IngestionLogger | undefined> {
+  const trigger = run.trigger === 'manual' ? 'manual' : 'cron';
+  const provider = run.provider ?? req.provider;
+
+  // Logs need a real user id, so cron runs use the first active user
+  let loggerUserId = run.triggered_by;
+  if (!loggerUserId) {
+    const users = await getAllActiveUsers();
+    loggerUserId = users[0]?.id ?? null;
+  }
+  if (!loggerUserId) return undefined;
+
+  if (!started && run.log_id) {
+    return IngestionLogger.resume(run.log_id, loggerUserId, provider, trigger, run.started_at);
+  }
+
+  const logger = new IngestionLogger(loggerUserId, provider, trigger);
+  await logger.init();
+  if (logger.id) await setIngestionRunLog(run.id, logger.id);
+  return logger;
+}
+
+/** Queue a new run's jobs: global fetch/embed, per-user work, then cleanup. */
+async function enqueueRun(run: IngestionRun, req: PipelineRequest, logger?: IngestionLogger): Promise<void> {
+  const jobs: NewPipelineJob[] = [
+    { stage: 'fetch', stageOrder: STAGES.fetch.order, userId: null },
+    { stage: 'embed', stageOrder: STAGES.embed.order, userId: null },
+    ...userJobs(req),
+  ];
+
+  // Weekly analysis (affinity mapping + source trust) covers every active user
+  if (await claimWeeklyAnalysis()) {
+    const everyone = await getAllActiveUsers();
+    logger?.log('weekly', `Queueing weekly analysis for ${everyone.length} user(s)`);
+    jobs.push(...everyone.map(u => ({ stage: 'weekly' as const, stageOrder: STAGES.weekly.order, userId: u.id })));
+  }
+
+  jobs.push({ stage: 'cleanup', stageOrder: STAGES.cleanup.order, userId: null });
+  await createPipelineJobs(run.id, jobs);
+}
+
+async function processJob(job: PipelineJob, run: IngestionRun, provider: string, deadline: number, logger?: IngestionLogger): Promise<void> {
+  const who = job.user_id ? ` for user ${job.user_id}` : '';
+  logger?.log('pipeline', `Starting ${job.stage}${who}${job.attempts > 1 ? ` (attempt ${job.attempts})` : ''}`);
+
+  try {
+    const outcome = await STAGES[job.stage].run(job, { run, provider, logger, deadline });
+    if (outcome.done) {
+      await completePipelineJob(job.id, outcome.result);
+    } else {
+      await checkpointPipelineJob(job.id, outcome.state ?? job.state, outcome.result);
+      logger?.log('pipeline', `Checkpointed ${job.stage}${who}; continuing in the next slice`);
+    }
+  } catch (err) {
+    logger?.error(job.stage, `${job.stage}${who} failed: ${err}`);
+    await failPipelineJob(job.id, String(err));
+  }
+}
+
+/**
+ * Start a run (or join the active one) and work through its queue until it is empty, the
+ * budget runs out, or the remaining jobs are leased by another invocation.
+ */
+export async function advancePipeline(req: PipelineRequest): Promise<PipelineSliceResult> {
+  const sliceStart = Date.now();
+  const deadline = req.budgetMs !== undefined ? sliceStart + req.budgetMs : Infinity;
+
+  // Abandon a run nobody has touched in hours before trying to start one
+  await markStaleLogsAsTimedOut();
+
+  const { run, started } = await startRun(req);
+  const provider = run.provider ?? req.provider;
+  const logger = await openLogger(run, started, req);
+
+  if (started) {
+    logger?.log('setup', `Pipeline run started (${req.trigger}, provider: ${provider}, ${req.users.length} user(s), ${req.digestUsers?.length ?? 0} digest(s) due)`);
+    await enqueueRun(run, req, logger);
+  } else {
+    logger?.log('setup', `Resuming pipeline run (${req.trigger})`);
+    // Users whose jobs in this run already finished get them again; their request came after
+    const jobs = userJobs(req);
+    if (jobs.length > 0) await createPipelineJobs(run.id, jobs, { reopenFinished: true });
+  }
+
+  const heartbeat = setInterval(() => {
+    heartbeatIngestionRun(run.id).catch(err => console.warn('Pipeline run heartbeat failed:', err));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref?.();
+
+  let jobsProcessed = 0;
+  try {
+    await heartbeatIngestionRun(run.id);
+    while (deadline - Date.now() >= MIN_SLICE_MS) {
+      const job = await claimPipelineJob(run.id, JOB_LEASE_MS, MAX_JOB_ATTEMPTS);
+      if (!job) break;
+      await processJob(job, run, provider, deadline - MIN_SLICE_MS / 2, logger);
+      jobsProcessed++;
+      // Keep the log's progress current for anyone following the run live
+      await logger?.flush(buildRunSummary(await getPipelineJobs(run.id)));
+    }
+  } catch (err) {
+    // The run stays open; leased jobs are picked up again once their lease runs out
+    logger?.error('pipeline', `Pipeline slice failed: ${err}`);
+    await logger?.flush().catch(() => {});
+    throw err;
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  const jobs = await getPipelineJobs(run.id);
+  const summary = buildRunSummary(jobs);
+  const progress = summary.progress as PipelineProgress;
+  const done = progress.pending === 0 && progress.running === 0;
+
+  if (done) {
+    // Two invocations can drain the queue at once; only the one that closes the run closes the log
+    if (await finishIngestionRun(run.id, 'success')) {
+      logger?.log('complete', `Pipeline finished (${progress.done} job(s) done, ${progress.failed} failed)`);
+      await logger?.persist('success', summary);
+    }
+  } else {
+    logger?.log('pipeline', `Slice finished: ${progress.done + progress.failed}/${progress.total} job(s) complete`);
+    await logger?.flush(summary);
+  }
+
+  return { run, started, done, jobsProcessed, progress, summary };
+}
@@ -0,0 +1,140 @@
+import type { IngestionRun, PipelineJob, PipelineStage } from '@/types';
+import { getAllFetchableSources } from '../db/sources';
+import { getUserById } from '../db/users';
+import { getGlobalSetting, setGlobalSetting } from '../db/settings';
+import { getSourcesForRun, fetchSources, embedPendingArticles, emptyIngestionResult } from '../ingestion';
+import type { IngestionResult } from '../ingestion';
+import {
+  scoreArticlesForUser,
+  generateDigestForUser,
+  runWeeklyAnalysisForUser,
+  pruneArticleEmbeddings,
+} from '../relevance';
+import type { IngestionLogger } from '../ingestion/logger';
+
+export interface StageContext {
+  run: IngestionRun;
+  provider: string;
+  logger?: IngestionLogger;
+  /** Stop starting new work after this (epoch ms) and checkpoint instead */
+  deadline: number;
+}
+
+export interface StageOutcome {
+  done: boolean;
+  state?: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+type StageHandler = (job: PipelineJob, ctx: StageContext) => Promise<StageOutcome>;
+
+/** Fetch due sources, a time-boxed batch per slice. State holds the source ids still to fetch. */
+async function runFetch(job: PipelineJob, ctx: StageContext): Promise<StageOutcome> {
+  const total = { ...emptyIngestionResult(), ...(job.result as Partial<IngestionResult>) };
+  let remainingIds = job.state.remaining as string[] | undefined;
+
+  if (!remainingIds) {
+    const { sources, skipped } = await getSourcesForRun(!!ctx.run.options?.force);
+    remainingIds = sources.map(s => s.id);
+    total.sourcesDue = sources.length;
+    total.sourcesSkipped = skipped;
+    ctx.logger?.log('fetch', `${sources.length} source(s) due, ${skipped} not yet due`);
+  }
+
+  const pendingIds = new Set(remainingIds);
+  const sources = (await getAllFetchableSources()).filter(s => pendingIds.has(s.id));
+  const { result, remaining } = await fetchSources(sources, ctx.provider, ctx.logger, ctx.deadline);
+
+  total.totalFetched += result.totalFetched;
+  total.newArticles += result.newArticles;
+  total.duplicates += result.duplicates;
+  total.notModified += result.notModified;
+  total.fullTextFetched += result.fullTextFetched;
+  total.fullTextFailed += result.fullTextFailed;
+  total.errors = [...total.errors, ...result.errors];
+  total.sourcesOverBudget = remaining.length;
+
+  return {
+    done: remaining.length === 0,
+    state: { remaining: remaining.map(s => s.id) },
+    result: total as unknown as Record<string, unknown>,
+  };
+}
+
+/** Embed and cluster this run's new articles in batches until none are left or time runs out. */
+async function runEmbed(job: PipelineJob, ctx: StageContext): Promise<StageOutcome> {
+  const total = {
+    articlesEmbedded: 0,
+    embeddingTokens: 0,
+    storyClustered: 0,
+    ...(job.result as Record<string, number>),
+  };
+  const since = new Date(ctx.run.started_at).toISOString();
+
+  while (true) {
+    const batch = await embedPendingArticles(since, ctx.provider, ctx.logger);
+    total.articlesEmbedded += batch.articlesEmbedded;
+    total.embeddingTokens += batch.embeddingTokens;
+    total.storyClustered += batch.storyClustered;
+
+    // Failed embeddings fall back to LLM-only scoring rather than retrying forever
+    if (batch.failed || !batch.hasMore) return { done: true, result: total };
+    if (Date.now() >= ctx.deadline) return { done: false, result: total };
+  }
+}
+
+async function runScore(job: PipelineJob, ctx: StageContext): Promise<StageOutcome> {
+  const result = await scoreArticlesForUser(job.user_id!, ctx.provider, ctx.logger);
+  return { done: true, result: result as unknown as Record<string, unknown> };
+}
+
+async function runDigest(job: PipelineJob, ctx: StageContext): Promise<StageOutcome> {
+  const { digestId, articleCount, scoredUnassignedCount } = await generateDigestForUser(job.user_id!, ctx.provider, ctx.logger);
+  return { done: true, result: { digestId, digestArticleCount: articleCount, scoredUnassignedCount } };
+}
+
+async function runWeekly(job: PipelineJob, ctx: StageContext): Promise<StageOutcome> {
+  const user = await getUserById(job.user_id!);
+  if (user) await runWeeklyAnalysisForUser(user, ctx.logger);
+  return { done: true, result: {} };
+}
+
+/** Delivery retries on every run; embedding pruning and retention once a day. */
+async function runCleanup(_job: PipelineJob, ctx: StageContext): Promise<StageOutcome> {
+  const logger = ctx.logger;
+  const result: Record<string, unknown> = {};
+
+  try {
+    const { retryDueDeliveries } = await import('../delivery');
+    result.deliveryRetries = await retryDueDeliveries(logger);
+  } catch (deliveryErr) {
+    logger?.warn('delivery', `Delivery retries failed: ${deliveryErr}`);
+  }
+
+  const todayKey = new Date().toISOString().slice(0, 10);
+  if (await getGlobalSetting('retention_last_run') === todayKey) return { done: true, result };
+  await setGlobalSetting('retention_last_run', todayKey);
+
+  await pruneArticleEmbeddings(logger);
+  try {
+    const { runRetention } = await import('../db/retention');
+    const retention = await runRetention();
+    const totalCleaned = Object.values(retention).reduce((a, b) => a + b, 0);
+    logger?.log('retention', `Retention cleanup: ${totalCleaned} rows removed`, retention as unknown as Record<string, unknown>);
+    result.retention = retention;
+  } catch (retentionErr) {
+    logger?.warn('retention', `Retention cleanup failed (non-fatal): ${retentionErr}`);
+  }
+
+  return { done: true, result };
+}
+
+/** Stage order doubles as the dependency order between jobs. */
+export const STAGES: Record<PipelineStage, { order: number; run: StageHandler }> = {
+  fetch: { order: 1, run: runFetch },
+  embed: { order: 2, run: runEmbed },
+  score: { order: 3, run: runScore },
+  digest: { order: 4, run: runDigest },
+  weekly: { order: 5, run: runWeekly },
+  cleanup: { order: 6, run: runCleanup },
+};
@@ -0,0 +1,377 @@
+/**
+ * Offline scoring evaluation. Replays a frozen snapshot of one user's articles, vectors,
+ * interests, exclusions and sentiment through stage 1 (embedding pre-filter) and stage 2
+ * (LLM scoring with a stubbed completion), then assigns digest tiers and measures how the
+ * liked articles fared. Nothing touches the database or an API, so threshold and prompt
+ * changes can be compared before they ship. See scripts/eval-scoring.ts.
+ */
+
+import { config } from '../config';
+import {
+  hashingEmbedding,
+  rankArticleSimilarities,
+  buildArticleEmbeddingText,
+  buildInterestEmbeddingText,
+  HASHING_MODEL_ID,
+} from '../embeddings';
+import type { llmComplete } from '../llm';
+import { DEFAULT_COST_RATES } from '../db/cost-analytics';
+import type { CostRates } from '../db/cost-analytics';
+import { scoreArticles } from './scorer';
+import {
+  DEFAULT_EMBEDDING_THRESHOLDS,
+  DEFAULT_EXCLUSION_PENALTY_THRESHOLD,
+  DEFAULT_BONUS_SETTINGS,
+  BLEND_TOP_N,
+  computeEmbeddingScores,
+  selectLlmCandidates,
+  assignDigestTiers,
+} from './selection';
+import type { BonusSettings, EmbeddingThresholds } from './selection';
+import type { Article, Interest, LearnedPreference, ScoringResult, Sentiment } from '@/types';
+
+export interface EvalFixture {
+  /** Embedding model the vectors came from. 'hashing-v1' fixtures may leave vectors out. */
+  model: string;
+  captured_at?: string;
+  /** Settings in effect when the snapshot was taken; options passed to the replay win */
+  min_relevance_score?: number;
+  thresholds?: Partial<EmbeddingThresholds>;
+  exclusion_threshold?: number;
+  bonus?: Partial<BonusSettings>;
+  interests: {
+    id: string;
+    category: string;
+    description: string | null;
+    expanded_description?: string | null;
+    weight: number;
+    embedding?: number[];
+    /** Learned feedback offset (interest_feedback_vectors) */
+    feedback_offset?: number[];
+  }[];
+  exclusions: {
+    id: string;
+    category: string;
+    description: string | null;
+    expanded_description?: string | null;
+    embedding?: number[];
+  }[];
+  preferences?: { preference_text: string; confidence: number }[];
+  /** Source trust factors by source id */
+  source_trust?: Record<string, number>;
+  articles: {
+    id: string;
+    source_id: string;
+    source_name?: string;
+    title: string;
+    url: string;
+    raw_content: string | null;
+    published_at?: string | null;
+    cluster_id?: string | null;
+    /** Saved by hand (manual_url source): always sent to the LLM */
+    manual?: boolean;
+    embedding?: number[];
+    /** What the user did with it — the ground truth */
+    sentiment: Sentiment | null;
+    /** The LLM's score at the time, replayed by the stub */
+    recorded?: { relevance_score: number; relevance_reason: string; is_serendipity: boolean };
+  }[];
+}
+
+export interface EvalOptions {
+  thresholds?: Partial<EmbeddingThresholds>;
+  exclusionThreshold?: number;
+  minScore?: number;
+  bonus?: Partial<BonusSettings>;
+  /** Seeds the serendipity sample so runs are repeatable */
+  seed?: number;
+  costRates?: CostRates;
+}
+
+type EvalTier = 'recommended' | 'serendipity' | 'bonus' | 'none';
+
+export interface EvalArticleResult {
+  id: string;
+  title: string;
+  sentiment: Sentiment | null;
+  embedding_score: number | null;
+  /** How stage 2 handled it: scored by the stub from a recording, by the stub without one, or not sent */
+  stage2: 'recorded' | 'unrecorded' | 'not_sent';
+  relevance_score: number;
+  tier: EvalTier;
+}
+
+export interface EvalReport {
+  articles: number;
+  liked: number;
+  skipped: number;
+  thresholds: EmbeddingThresholds;
+  min_score: number;
+  stage1: { embedded: number; above_threshold: number; llm_candidates: number; serendipity_candidates: number };
+  llm: { batches: number; prompt_tokens: number; completion_tokens: number; recorded: number; unrecorded: number; estimated_cost: number };
+  tiers: Record<EvalTier, { total: number; liked: number; skipped: number }>;
+  /** Liked share of the rated articles in the digest (recommended + serendipity) */
+  precision: number | null;
+  /** Share of all liked articles that made the digest */
+  recall: number | null;
+  f1: number | null;
+  results: EvalArticleResult[];
+}
+
+// Rough token estimate for stubbed calls
+const CHARS_PER_TOKEN = 4;
+
+function seededRandom(seed: number): () => number {
+  // mulberry32
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function vectorFor(model: string, stored: number[] | undefined, text: string): number[] | undefined {
+  if (stored) return stored;
+  return model === HASHING_MODEL_ID ? hashingEmbedding(text, config.embeddingDimensions).embedding : undefined;
+}
+
+/**
+ * Stand-in for llmComplete: answers a scoring batch with the snapshot's recorded scores, and
+ * with the embedding score for articles the LLM never saw. Usage is estimated from text length.
+ */
+function stubCompletion(
+  recorded: Map<string, ScoringResult>,
+  fallbackScores: Map<string, number>,
+  stats: { recorded: number; unrecorded: number }
+): typeof llmComplete {
+  return async (prompt: string) => {
+    const ids = [...prompt.matchAll(/^ID: (.+)$/gm)].map(m => m[1].trim());
+    const results: ScoringResult[] = ids.map(id => {
+      const hit = recorded.get(id);
+      if (hit) {
+        stats.recorded++;
+        return hit;
+      }
+      stats.unrecorded++;
+      return {
+        article_id: id,
+        relevance_score: parseFloat((fallbackScores.get(id) ?? 0).toFixed(4)),
+        relevance_reason: 'Embedding score (no recorded LLM score)',
+        is_serendipity: false,
+      };
+    });
+    const text = JSON.stringify(results);
+    const promptTokens = Math.ceil(prompt.length / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+    return { text, usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens } };
+  };
+}
+
+/** Replay a fixture through both scoring stages and digest assembly. */
+export async function evaluateFixture(fixture: EvalFixture, options: EvalOptions = {}): Promise<EvalReport> {
+  const thresholds: EmbeddingThresholds = { ...DEFAULT_EMBEDDING_THRESHOLDS, ...fixture.thresholds, ...options.thresholds };
+  const exclusionThreshold = options.exclusionThreshold ?? fixture.exclusion_threshold ?? DEFAULT_EXCLUSION_PENALTY_THRESHOLD;
+  const minScore = options.minScore ?? fixture.min_relevance_score ?? config.minRelevanceScore;
+  const bonus: BonusSettings = { ...DEFAULT_BONUS_SETTINGS, ...fixture.bonus, ...options.bonus };
+  const rates = options.costRates ?? DEFAULT_COST_RATES;
+
+  const interests = fixture.interests.map(i => ({
+    ...i,
+    user_id: '',
+    expanded_description: i.expanded_description ?? null,
+    active: true,
+    created_at: '',
+  })) as Interest[];
+  const preferences = (fixture.preferences ?? []).map((p, idx) => ({
+    id: String(idx),
+    user_id: '',
+    derived_from_count: 0,
+    updated_at: '',
+    ...p,
+  })) as LearnedPreference[];
+  const articles = fixture.articles.map(a => ({
+    id: a.id,
+    source_id: a.source_id,
+    external_id: null,
+    title: a.title,
+    url: a.url,
+    raw_content: a.raw_content,
+    summary: null,
+    provider: 'eval',
+    published_at: a.published_at ?? null,
+    ingested_at: '',
+    cluster_id: a.cluster_id ?? null,
+  })) as Article[];
+
+  // --- Vectors (hashing fixtures are embedded on the fly) ---
+  const interestEmbeddings = new Map<string, number[]>();
+  for (const i of fixture.interests) {
+    const emb = vectorFor(fixture.model, i.embedding, buildInterestEmbeddingText(i.category, i.description, i.expanded_description));
+    if (emb) interestEmbeddings.set(i.id, emb);
+  }
+  const exclusionEmbeddings = new Map<string, number[]>();
+  for (const e of fixture.exclusions) {
+    const emb = vectorFor(fixture.model, e.embedding, buildInterestEmbeddingText(e.category, e.description, e.expanded_description));
+    if (emb) exclusionEmbeddings.set(e.id, emb);
+  }
+  const articleEmbeddings = new Map<string, number[]>();
+  for (const a of fixture.articles) {
+    const emb = vectorFor(fixture.model, a.embedding, buildArticleEmbeddingText(a.title, a.raw_content));
+    if (emb) articleEmbeddings.set(a.id, emb);
+  }
+
+  // --- Stage 1: embedding pre-filter ---
+  const hasEmbeddings = interestEmbeddings.size > 0 && articleEmbeddings.size > 0;
+  const manualSourceIds = new Set(fixture.articles.filter(a => a.manual).map(a => a.source_id));
+  const savedLinks = articles.filter(a => manualSourceIds.has(a.source_id));
+
+  const similarities = rankArticleSimilarities(
+    hasEmbeddings ? articleEmbeddings : new Map(),
+    fixture.interests.map(i => ({ id: i.id, weight: i.weight, offset: i.feedback_offset })),
+    interestEmbeddings,
+    exclusionEmbeddings,
+    BLEND_TOP_N
+  );
+  const blendedScores = computeEmbeddingScores(
+    articles.filter(a => hasEmbeddings && articleEmbeddings.has(a.id)),
+    similarities,
+    {
+      interests,
+      exclusions: fixture.exclusions,
+      thresholds,
+      exclusionThreshold,
+      sourceTrustFactors: new Map(Object.entries(fixture.source_trust ?? {})),
+      feedbackAdjusted: new Set(fixture.interests.filter(i => i.feedback_offset).map(i => i.id)),
+    }
+  );
+
+  let llmCandidates: Article[] = articles;
+  let serendipityPool: Article[] = [];
+  let aboveThreshold = articles.length;
+  if (hasEmbeddings) {
+    // Articles without a vector go to the LLM anyway, as in the live pipeline
+    const embeddingScores = articles.map(article => ({ article, score: blendedScores.get(article.id)?.score ?? 1.0 }));
+    const selection = selectLlmCandidates(embeddingScores, similarities, thresholds, {
+      alwaysInclude: savedLinks,
+      serendipityExcludedSources: manualSourceIds,
+      random: seededRandom(options.seed ?? 1),
+    });
+    llmCandidates = selection.llmCandidates;
+    serendipityPool = selection.serendipityPool;
+    aboveThreshold = selection.aboveThreshold;
+  }
+
+  // --- Stage 2: LLM scoring against recorded responses ---
+  const recorded = new Map<string, ScoringResult>();
+  for (const a of fixture.articles) {
+    if (a.recorded) recorded.set(a.id, { article_id: a.id, ...a.recorded });
+  }
+  const fallbackScores = new Map([...blendedScores].map(([id, b]) => [id, b.score]));
+  const stubStats = { recorded: 0, unrecorded: 0 };
+  const sentToLlm = [...llmCandidates, ...serendipityPool];
+  const { results: llmScores, usage } = sentToLlm.length > 0
+    ? await scoreArticles(
+        sentToLlm,
+        interests,
+        preferences,
+        '',
+        undefined,
+        serendipityPool.map(a => a.id),
+        stubCompletion(recorded, fallbackScores, stubStats)
+      )
+    : { results: [], usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, api_calls: 0, cache_hits: 0, cache_misses: 0 } };
+
+  // Articles not sent to the LLM keep their embedding score, as in the live pipeline
+  const finalScores = new Map<string, ScoringResult>(llmScores.map(s => [s.article_id, s]));
+  for (const [id, blended] of blendedScores) {
+    if (!finalScores.has(id)) {
+      finalScores.set(id, { article_id: id, relevance_score: parseFloat(blended.score.toFixed(4)), relevance_reason: 'Embedding score (not sent to LLM)', is_serendipity: false });
+    }
+  }
+
+  // --- Digest: one article per story, then tiers ---
+  const bestPerStory = new Map<string, ScoringResult>();
+  for (const a of articles) {
+    const score = finalScores.get(a.id);
+    if (!score) continue;
+    const key = a.cluster_id ?? a.id;
+    const current = bestPerStory.get(key);
+    if (!current || score.relevance_score > current.relevance_score) bestPerStory.set(key, score);
+  }
+  const scored = [...bestPerStory.values()].sort((a, b) => b.relevance_score - a.relevance_score);
+  const tiers = assignDigestTiers(scored, minScore, bonus);
+  const hasDigest = tiers.recommended.length + tiers.serendipity.length > 0;
+
+  const tierOf = new Map<string, EvalTier>();
+  if (hasDigest) {
+    for (const t of ['recommended', 'serendipity', 'bonus'] as const) {
+      for (const s of tiers[t]) tierOf.set(s.article_id, t);
+    }
+  }
+
+  // --- Report ---
+  const sentIds = new Set(sentToLlm.map(a => a.id));
+  const tierStats: EvalReport['tiers'] = {
+    recommended: { total: 0, liked: 0, skipped: 0 },
+    serendipity: { total: 0, liked: 0, skipped: 0 },
+    bonus: { total: 0, liked: 0, skipped: 0 },
+    none: { total: 0, liked: 0, skipped: 0 },
+  };
+  const results: EvalArticleResult[] = fixture.articles.map(a => {
+    const tier = tierOf.get(a.id) ?? 'none';
+    tierStats[tier].total++;
+    if (a.sentiment === 'liked') tierStats[tier].liked++;
+    if (a.sentiment === 'skipped') tierStats[tier].skipped++;
+    return {
+      id: a.id,
+      title: a.title,
+      sentiment: a.sentiment,
+      embedding_score: blendedScores.get(a.id)?.score ?? null,
+      stage2: !sentIds.has(a.id) ? 'not_sent' : recorded.has(a.id) ? 'recorded' : 'unrecorded',
+      relevance_score: finalScores.get(a.id)?.relevance_score ?? 0,
+      tier,
+    };
+  });
+
+  const liked = fixture.articles.filter(a => a.sentiment === 'liked').length;
+  const skipped = fixture.articles.filter(a => a.sentiment === 'skipped').length;
+  const digestLiked = tierStats.recommended.liked + tierStats.serendipity.liked;
+  const digestRated = digestLiked + tierStats.recommended.skipped + tierStats.serendipity.skipped;
+  const precision = digestRated > 0 ? digestLiked / digestRated : null;
+  const recall = liked > 0 ? digestLiked / liked : null;
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : null;
+
+  return {
+    articles: fixture.articles.length,
+    liked,
+    skipped,
+    thresholds,
+    min_score: minScore,
+    stage1: {
+      embedded: blendedScores.size,
+      above_threshold: aboveThreshold,
+      llm_candidates: llmCandidates.length,
+      serendipity_candidates: serendipityPool.length,
+    },
+    llm: {
+      batches: usage.api_calls,
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      recorded: stubStats.recorded,
+      unrecorded: stubStats.unrecorded,
+      estimated_cost:
+        (usage.prompt_tokens / 1_000_000) * rates.llm_input_per_million +
+        (usage.completion_tokens / 1_000_000) * rates.llm_output_per_million,
+    },
+    tiers: tierStats,
+    precision,
+    recall,
+    f1,
+    results,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Rocchio-style relevance feedback. Each interest has a learned offset that is added to its
+ * embedding in stage 1: liking an article nudges the offset toward the article's vector, skipping
+ * one nudges it away. The nudge goes to the interest the article matched best at scoring time.
+ */
+
+import { getEmbedding, getActiveEmbeddingModel } from '../embeddings';
+import { getInterestFeedbackVector, saveInterestFeedbackVector } from '../db/interest-feedback';
+import type { ScoreBreakdown, Sentiment } from '@/types';
+
+// Rocchio weights for relevant / non-relevant examples (likes count more than skips)
+const LIKE_STEP = 0.1;
+const SKIP_STEP = 0.05;
+// Interest vectors are unit length, so this keeps the learned part from outweighing the description
+const MAX_OFFSET_NORM = 0.5;
+
+function nudge(offset: number[], articleEmb: number[], step: number): number[] {
+  const next = offset.map((v, i) => v + step * articleEmb[i]);
+  const norm = Math.sqrt(next.reduce((s, v) => s + v * v, 0));
+  return norm > MAX_OFFSET_NORM ? next.map(v => (v * MAX_OFFSET_NORM) / norm) : next;
+}
+
+/**
+ * Apply a sentiment change to the matched interest's offset. Clearing or switching a sentiment
+ * takes the earlier nudge back out, so toggling a like doesn't keep pulling the interest along.
+ * Returns false when there's nothing to learn from (no match recorded, or the article's vector is gone).
+ */
+export async function applySentimentFeedback(
+  userId: string,
+  articleId: string,
+  breakdown: ScoreBreakdown | null,
+  previous: Sentiment | null,
+  next: Sentiment | null
+): Promise<boolean> {
+  const interestId = breakdown?.interests[0]?.interest_id;
+  if (!interestId || previous === next) return false;
+
+  const model = await getActiveEmbeddingModel();
+  const articleEmb = await getEmbedding('article', articleId, model);
+  if (!articleEmb) return false;
+
+  const existing = await getInterestFeedbackVector(interestId);
+  const current = existing && existing.model === model && existing.offset_json.length === articleEmb.length
+    ? existing
+    : null;
+
+  let offset = current?.offset_json ?? new Array(articleEmb.length).fill(0);
+  let liked = current?.liked_count ?? 0;
+  let skipped = current?.skipped_count ?? 0;
+
+  // Only undo what was recorded (feedback from before this existed never nudged anything)
+  if (previous === 'liked' && liked > 0) {
+    offset = nudge(offset, articleEmb, -LIKE_STEP);
+    liked--;
+  } else if (previous === 'skipped' && skipped > 0) {
+    offset = nudge(offset, articleEmb, SKIP_STEP);
+    skipped--;
+  }
+  if (next === 'liked') {
+    offset = nudge(offset, articleEmb, LIKE_STEP);
+    liked++;
+  } else if (next === 'skipped') {
+    offset = nudge(offset, articleEmb, -SKIP_STEP);
+    skipped++;
+  }
+
+  await saveInterestFeedbackVector(userId, interestId, model, offset, liked, skipped);
+  return true;
+}
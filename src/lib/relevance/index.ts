@@ -3,8 +3,8 @@ import { getEnabledSourcesForUser } from '../db/sources';
 import { createDigest, updateDigestArticleCount } from '../db/digests';
 import { getActiveInterestsByUserId } from '../db/interests';
 import { getPreferencesByUserId } from '../db/preferences';
-import { getAllActiveUsers, getUserById } from '../db/users';
-import { getGlobalSetting } from '../db/settings';
+import { getUserById } from '../db/users';
+import { getGlobalSetting, setGlobalSetting } from '../db/settings';
 import {
   getUnscoredArticlesForUser,
   createUserArticleScoring,
@@ -14,41 +14,38 @@ import {
 } from '../db/user-articles';
 import {
   getEmbeddingsByType,
-  cosineSimilarity,
+  getArticleIdsWithEmbeddings,
+  findArticleSimilarities,
+  getActiveEmbeddingModel,
   pruneOldArticleEmbeddings,
   generateEmbedding,
   storeEmbedding,
   buildInterestEmbeddingText,
 } from '../embeddings';
+import type { ArticleSimilarities } from '../embeddings';
 import { getExclusionsByUserId } from '../db/exclusions';
-import { prefilterArticles } from './prefilter';
+import { getInterestFeedbackOffsets } from '../db/interest-feedback';
+import { prefilterArticles, aggregatorPointsFloors } from './prefilter';
+import {
+  DEFAULT_EMBEDDING_THRESHOLDS,
+  DEFAULT_EXCLUSION_PENALTY_THRESHOLD,
+  DEFAULT_BONUS_SETTINGS,
+  BLEND_TOP_N,
+  computeEmbeddingScores,
+  selectLlmCandidates,
+  assignDigestTiers,
+} from './selection';
+import type { BonusSettings, EmbeddingThresholds } from './selection';
 import { scoreArticles } from './scorer';
 import { shouldRunLearning, runPreferenceLearning } from './learner';
 import { getSourceTrustFactors } from '../db/source-trust';
 import { runAffinityAnalysis } from '../affinity';
 import { recomputeSourceTrust } from '../source-trust';
+import { deliverDigest } from '../delivery';
 import type { IngestionLogger } from '../ingestion/logger';
-import type { Article } from '@/types';
-
-// Default thresholds (overridden by global settings)
-const DEFAULT_EMBEDDING_LLM_THRESHOLD = 0.25;
-const DEFAULT_EMBEDDING_SERENDIPITY_MIN = 0.12;
-const DEFAULT_EMBEDDING_SERENDIPITY_MAX = 0.25;
-const DEFAULT_SERENDIPITY_SAMPLE_SIZE = 5;
-const DEFAULT_MAX_LLM_CANDIDATES = 40;
-const DEFAULT_EXCLUSION_PENALTY_THRESHOLD = 0.40;
-
-interface EmbeddingThresholds {
-  llmThreshold: number;
-  serendipityMin: number;
-  serendipityMax: number;
-  serendipitySampleSize: number;
-  maxLlmCandidates: number;
-  blendedPrimaryWeight: number;
-  blendedSecondaryWeight: number;
-}
+import type { Article, User } from '@/types';
 
-async function getThresholds(): Promise<EmbeddingThresholds> {
+export async function getThresholds(): Promise<EmbeddingThresholds> {
   const [t1, t2, t3, t4, t5, t6, t7] = await Promise.all([
     getGlobalSetting('embedding_llm_threshold'),
     getGlobalSetting('embedding_serendipity_min'),
@@ -58,18 +55,19 @@ async function getThresholds(): Promise<EmbeddingThresholds> {
     getGlobalSetting('blended_primary_weight'),
     getGlobalSetting('blended_secondary_weight'),
   ]);
+  const defaults = DEFAULT_EMBEDDING_THRESHOLDS;
   return {
-    llmThreshold: t1 ? parseFloat(t1) : DEFAULT_EMBEDDING_LLM_THRESHOLD,
-    serendipityMin: t2 ? parseFloat(t2) : DEFAULT_EMBEDDING_SERENDIPITY_MIN,
-    serendipityMax: t3 ? parseFloat(t3) : DEFAULT_EMBEDDING_SERENDIPITY_MAX,
-    serendipitySampleSize: t4 ? parseInt(t4, 10) : DEFAULT_SERENDIPITY_SAMPLE_SIZE,
-    maxLlmCandidates: t5 ? parseInt(t5, 10) : DEFAULT_MAX_LLM_CANDIDATES,
-    blendedPrimaryWeight: t6 ? parseFloat(t6) : 0.7,
-    blendedSecondaryWeight: t7 ? parseFloat(t7) : 0.3,
+    llmThreshold: t1 ? parseFloat(t1) : defaults.llmThreshold,
+    serendipityMin: t2 ? parseFloat(t2) : defaults.serendipityMin,
+    serendipityMax: t3 ? parseFloat(t3) : defaults.serendipityMax,
+    serendipitySampleSize: t4 ? parseInt(t4, 10) : defaults.serendipitySampleSize,
+    maxLlmCandidates: t5 ? parseInt(t5, 10) : defaults.maxLlmCandidates,
+    blendedPrimaryWeight: t6 ? parseFloat(t6) : defaults.blendedPrimaryWeight,
+    blendedSecondaryWeight: t7 ? parseFloat(t7) : defaults.blendedSecondaryWeight,
   };
 }
 
-interface RelevanceResult {
+export interface RelevanceResult {
   articlesScored: number;
   digestId: string | null;
   digestArticleCount: number;
@@ -83,61 +81,44 @@ interface RelevanceResult {
   llmInputTokens: number;
   llmOutputTokens: number;
   llmApiCalls: number;
+  llmCacheHits: number;
+  llmCacheMisses: number;
 }
 
-export async function runRelevanceForAllUsers(provider: string, logger?: IngestionLogger): Promise<Record<string, RelevanceResult>> {
-  const users = await getAllActiveUsers();
-  const results: Record<string, RelevanceResult> = {};
-
-  logger?.log('relevance', `Scoring for ${users.length} active user(s)`);
-
-  for (const user of users) {
-    try {
-      results[user.id] = await runRelevanceEngine(user.id, provider, logger);
-    } catch (error: unknown) {
-      logger?.error('relevance', `Error scoring for user ${user.username}: ${error}`);
-      results[user.id] = {
-        articlesScored: 0,
-        digestId: null,
-        digestArticleCount: 0,
-        unscoredCount: 0,
-        afterPrefilterCount: 0,
-        embeddingScored: 0,
-        aboveEmbeddingThreshold: 0,
-        serendipityCandidates: 0,
-        sentToLlm: 0,
-        scoredUnassignedCount: 0,
-        llmInputTokens: 0,
-        llmOutputTokens: 0,
-        llmApiCalls: 0,
-      };
-    }
-  }
-
-  // Weekly analysis: affinity mapping + source trust (runs on configurable day, default Sunday)
+/**
+ * Claim today's weekly analysis (affinity mapping + source trust). True at most once per day,
+ * and only on the configured day (default Sunday), however many runs happen that day.
+ */
+export async function claimWeeklyAnalysis(): Promise<boolean> {
   const affinityDaySetting = await getGlobalSetting('affinity_analysis_day');
   const affinityDay = affinityDaySetting !== null ? parseInt(affinityDaySetting, 10) : 0;
   const today = new Date();
-  if (today.getUTCDay() === affinityDay) {
-    logger?.log('weekly', 'Running weekly analysis (affinity + source trust)');
-    for (const user of users) {
-      try {
-        const count = await runAffinityAnalysis(user.id, logger);
-        if (count > 0) {
-          logger?.log('affinity', `User ${user.username}: ${count} suggestion(s) created`);
-        }
-      } catch (err) {
-        logger?.warn('affinity', `Affinity analysis failed for ${user.username}: ${err}`);
-      }
-      try {
-        await recomputeSourceTrust(user.id, logger);
-      } catch (err) {
-        logger?.warn('source_trust', `Source trust update failed for ${user.username}: ${err}`);
-      }
+  const todayKey = today.toISOString().slice(0, 10);
+  if (today.getUTCDay() !== affinityDay || await getGlobalSetting('weekly_analysis_last_run') === todayKey) {
+    return false;
+  }
+  await setGlobalSetting('weekly_analysis_last_run', todayKey);
+  return true;
+}
+
+export async function runWeeklyAnalysisForUser(user: User, logger?: IngestionLogger): Promise<void> {
+  try {
+    const count = await runAffinityAnalysis(user.id, logger);
+    if (count > 0) {
+      logger?.log('affinity', `User ${user.username}: ${count} suggestion(s) created`);
     }
+  } catch (err) {
+    logger?.warn('affinity', `Affinity analysis failed for ${user.username}: ${err}`);
   }
+  try {
+    await recomputeSourceTrust(user.id, logger);
+  } catch (err) {
+    logger?.warn('source_trust', `Source trust update failed for ${user.username}: ${err}`);
+  }
+}
 
-  // Prune old article embeddings to save database storage
+/** Prune old article embeddings to save database storage */
+export async function pruneArticleEmbeddings(logger?: IngestionLogger): Promise<void> {
   try {
     const pruned = await pruneOldArticleEmbeddings(7);
     if (pruned > 0) {
@@ -146,11 +127,10 @@ export async function runRelevanceForAllUsers(provider: string, logger?: Ingesti
   } catch (err) {
     logger?.warn('embedding', `Embedding pruning failed: ${err}`);
   }
-
-  return results;
 }
 
-export async function runRelevanceEngine(userId: string, provider: string, logger?: IngestionLogger): Promise<RelevanceResult> {
+/** Score the user's unscored articles (embedding pre-filter, then LLM). Digest assembly is a separate step. */
+export async function scoreArticlesForUser(userId: string, provider: string, logger?: IngestionLogger): Promise<RelevanceResult> {
   const result: RelevanceResult = {
     articlesScored: 0,
     digestId: null,
@@ -165,6 +145,8 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     llmInputTokens: 0,
     llmOutputTokens: 0,
     llmApiCalls: 0,
+    llmCacheHits: 0,
+    llmCacheMisses: 0,
   };
 
   const userSources = await getEnabledSourcesForUser(userId);
@@ -176,10 +158,6 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
   logger?.log('relevance', `User ${userId}: ${unscored.length} unscored articles`);
 
   if (unscored.length === 0) {
-    const digestResult = await generateDigestForUser(userId, provider, logger);
-    result.digestId = digestResult.digestId;
-    result.digestArticleCount = digestResult.articleCount;
-    result.scoredUnassignedCount = digestResult.scoredUnassignedCount;
     return result;
   }
 
@@ -193,10 +171,17 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     ingested_at: '',
   })) as Article[];
 
+  // Links the user saved by hand skip the prefilter and are always sent to the LLM
+  const manualSourceIds = new Set(userSources.filter(s => s.type === 'manual_url').map(s => s.id));
+  const savedLinks = asArticles.filter(a => manualSourceIds.has(a.source_id));
+  const feedArticles = asArticles.filter(a => !manualSourceIds.has(a.source_id));
+
   const user = await getUserById(userId);
-  const { kept: filtered, removed } = prefilterArticles(asArticles, {
+  const { kept, removed } = prefilterArticles(feedArticles, {
     userCreatedAt: user?.created_at ? new Date(user.created_at) : undefined,
+    minPointsBySource: aggregatorPointsFloors(userSources),
   });
+  const filtered = [...savedLinks, ...kept];
   result.afterPrefilterCount = filtered.length;
 
   logger?.log('prefilter', `Prefilter: ${unscored.length} → ${filtered.length} (${removed.length} removed)`);
@@ -235,6 +220,18 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     ? await getEmbeddingsByType('exclusion', exclusions.map(e => e.id))
     : new Map<string, number[]>();
 
+  // Embed exclusions that have no vector from the active model yet (e.g. after a provider switch)
+  for (const exclusion of exclusions.filter(e => !exclusionEmbeddings.has(e.id))) {
+    try {
+      const text = buildInterestEmbeddingText(exclusion.category, exclusion.description, exclusion.expanded_description);
+      const emb = await generateEmbedding(text);
+      await storeEmbedding('exclusion', exclusion.id, text, emb);
+      exclusionEmbeddings.set(exclusion.id, emb);
+    } catch (err) {
+      logger?.warn('embedding', `Failed to generate embedding for exclusion "${exclusion.category}": ${err}`);
+    }
+  }
+
   const exclusionThresholdSetting = await getGlobalSetting('exclusion_penalty_threshold');
   const exclusionThreshold = exclusionThresholdSetting ? parseFloat(exclusionThresholdSetting) : DEFAULT_EXCLUSION_PENALTY_THRESHOLD;
 
@@ -246,11 +243,34 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
   const sourceTrustFactors = await getSourceTrustFactors(userId);
 
   // --- Stage 1: Embedding pre-filter ---
-  const interestEmbeddings = existingInterestEmbeddings;
   const articleIds = filtered.map(a => a.id);
-  const articleEmbeddings = await getEmbeddingsByType('article', articleIds);
+  const articlesWithEmbeddings = await getArticleIdsWithEmbeddings(articleIds);
+
+  const hasEmbeddings = existingInterestEmbeddings.size > 0 && articlesWithEmbeddings.size > 0;
 
-  const hasEmbeddings = interestEmbeddings.size > 0 && articleEmbeddings.size > 0;
+  // Interest vectors adjusted by like/skip feedback (Rocchio offsets learned in the active model)
+  const feedbackOffsets = hasEmbeddings
+    ? await getInterestFeedbackOffsets(userId, await getActiveEmbeddingModel())
+    : new Map<string, number[]>();
+  if (feedbackOffsets.size > 0) {
+    logger?.log('embedding_scoring', `Applying feedback adjustments to ${feedbackOffsets.size} interest(s)`);
+  }
+
+  // Per-interest similarities come back already ranked (computed in SQL when pgvector is available)
+  const similarities = hasEmbeddings
+    ? await findArticleSimilarities(
+        articleIds.filter(id => articlesWithEmbeddings.has(id)),
+        interests.map(i => ({ id: i.id, weight: i.weight, offset: feedbackOffsets.get(i.id) })),
+        [...exclusionEmbeddings.keys()],
+        BLEND_TOP_N
+      )
+    : new Map<string, ArticleSimilarities>();
+
+  const blendedScores = computeEmbeddingScores(
+    filtered.filter(a => articlesWithEmbeddings.has(a.id)),
+    similarities,
+    { interests, exclusions, thresholds, exclusionThreshold, sourceTrustFactors, feedbackAdjusted: new Set(feedbackOffsets.keys()) }
+  );
 
   let llmCandidates: Article[];
   let serendipityPool: Article[] = [];
@@ -260,49 +280,15 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     const embeddingScores: { article: Article; score: number }[] = [];
 
     for (const article of filtered) {
-      const articleEmb = articleEmbeddings.get(article.id);
-      if (!articleEmb) {
+      const blended = blendedScores.get(article.id);
+      if (blended === undefined) {
         // No embedding — send to LLM anyway
         embeddingScores.push({ article, score: 1.0 });
         continue;
       }
 
-      // Compute weight-adjusted similarities per interest
-      const weightedSims: number[] = [];
-      for (const interest of interests) {
-        if (interest.weight === 0) continue;
-        const interestEmb = interestEmbeddings.get(interest.id);
-        if (!interestEmb) continue;
-        const similarity = cosineSimilarity(articleEmb, interestEmb);
-        weightedSims.push(similarity * interest.weight);
-      }
-
-      // Blended scoring: 0.7 * primary + 0.3 * avg(top 3)
-      weightedSims.sort((a, b) => b - a);
-      const primary = weightedSims[0] ?? 0;
-      const topN = weightedSims.slice(0, 3);
-      const secondary = topN.length > 0 ? topN.reduce((s, v) => s + v, 0) / topN.length : 0;
-      let blended = thresholds.blendedPrimaryWeight * primary + thresholds.blendedSecondaryWeight * secondary;
-
-      // Apply exclusion penalties
-      if (exclusionEmbeddings.size > 0) {
-        let penaltyMultiplier = 1.0;
-        for (const [, excEmb] of exclusionEmbeddings) {
-          const sim = cosineSimilarity(articleEmb, excEmb);
-          if (sim >= exclusionThreshold) {
-            const penaltyStrength = (sim - exclusionThreshold) / (1.0 - exclusionThreshold);
-            penaltyMultiplier = Math.min(penaltyMultiplier, 1.0 - (penaltyStrength * 0.8));
-          }
-        }
-        blended *= penaltyMultiplier;
-      }
-
-      // Apply source trust multiplier
-      const trustFactor = sourceTrustFactors.get(article.source_id) ?? 1.0;
-      blended *= trustFactor;
-
-      embeddingScores.push({ article, score: blended });
-      await setEmbeddingScore(userId, article.id, blended);
+      embeddingScores.push({ article, score: blended.score });
+      await setEmbeddingScore(userId, article.id, blended.score, blended.breakdown);
     }
 
     result.embeddingScored = embeddingScores.length;
@@ -323,98 +309,19 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     }
     logger?.log('embedding_scoring', `Score distribution: ${JSON.stringify(distribution)}`);
 
-    // Select candidates above threshold
-    const aboveThreshold = embeddingScores
-      .filter(e => e.score >= thresholds.llmThreshold)
-      .sort((a, b) => b.score - a.score);
-
-    result.aboveEmbeddingThreshold = aboveThreshold.length;
-
-    // Cap at max LLM candidates
-    llmCandidates = aboveThreshold
-      .slice(0, thresholds.maxLlmCandidates)
-      .map(e => e.article);
-
-    // Serendipity pool: weighted sample biased toward threshold proximity and diversity
-    const serendipityEligible = embeddingScores.filter(
-      e => e.score >= thresholds.serendipityMin && e.score < thresholds.serendipityMax
-    );
-
-    if (serendipityEligible.length > 0) {
-      // Count interest/source coverage in LLM candidates for diversity bias
-      const interestCoverage = new Map<string, number>();
-      const sourceCoverage = new Map<string, number>();
-      for (const candidate of llmCandidates) {
-        // Best matching interest for this candidate
-        let bestInterest = '';
-        let bestSim = 0;
-        for (const interest of interests) {
-          const interestEmb = interestEmbeddings.get(interest.id);
-          const articleEmb = articleEmbeddings.get(candidate.id);
-          if (!interestEmb || !articleEmb) continue;
-          const sim = cosineSimilarity(articleEmb, interestEmb);
-          if (sim > bestSim) { bestSim = sim; bestInterest = interest.id; }
-        }
-        if (bestInterest) interestCoverage.set(bestInterest, (interestCoverage.get(bestInterest) || 0) + 1);
-        sourceCoverage.set(candidate.source_id, (sourceCoverage.get(candidate.source_id) || 0) + 1);
-      }
-
-      const range = thresholds.serendipityMax - thresholds.serendipityMin;
-
-      // Compute selection weights
-      const weighted = serendipityEligible.map(e => {
-        // A. Score proximity to threshold (quadratic bias)
-        const position = range > 0 ? (e.score - thresholds.serendipityMin) / range : 0;
-        const proximityWeight = position * position;
-
-        // B. Interest diversity
-        let bestInterest = '';
-        let bestSim = 0;
-        const articleEmb = articleEmbeddings.get(e.article.id);
-        if (articleEmb) {
-          for (const interest of interests) {
-            const interestEmb = interestEmbeddings.get(interest.id);
-            if (!interestEmb) continue;
-            const sim = cosineSimilarity(articleEmb, interestEmb);
-            if (sim > bestSim) { bestSim = sim; bestInterest = interest.id; }
-          }
-        }
-        const coverage = interestCoverage.get(bestInterest) || 0;
-        const diversityWeight = 1.0 / (1 + coverage);
-
-        // C. Source diversity
-        const sourceCount = sourceCoverage.get(e.article.source_id) || 0;
-        const sourceWeight = 1.0 / (1 + sourceCount);
-
-        const selectionWeight = (0.5 * proximityWeight) + (0.3 * diversityWeight) + (0.2 * sourceWeight);
-        return { ...e, selectionWeight };
-      });
-
-      // Weighted random sampling (roulette wheel)
-      const selected: typeof serendipityEligible = [];
-      const remaining = [...weighted];
-      const sampleSize = Math.min(thresholds.serendipitySampleSize, remaining.length);
-
-      for (let s = 0; s < sampleSize; s++) {
-        const totalWeight = remaining.reduce((sum, e) => sum + e.selectionWeight, 0);
-        if (totalWeight <= 0) break;
-        let r = Math.random() * totalWeight;
-        let picked = remaining.length - 1;
-        for (let i = 0; i < remaining.length; i++) {
-          r -= remaining[i].selectionWeight;
-          if (r <= 0) { picked = i; break; }
-        }
-        selected.push(remaining[picked]);
-        remaining.splice(picked, 1);
-      }
-
-      serendipityPool = selected.map(e => e.article);
-    }
+    // Saved links go to the LLM regardless of embedding score
+    const selection = selectLlmCandidates(embeddingScores, similarities, thresholds, {
+      alwaysInclude: savedLinks,
+      serendipityExcludedSources: manualSourceIds,
+    });
+    llmCandidates = selection.llmCandidates;
+    serendipityPool = selection.serendipityPool;
+    result.aboveEmbeddingThreshold = selection.aboveThreshold;
 
     result.serendipityCandidates = serendipityPool.length;
     result.sentToLlm = llmCandidates.length + serendipityPool.length;
 
-    logger?.log('embedding_scoring', `Embedding scored: ${embeddingScores.length}, above threshold (${thresholds.llmThreshold}): ${aboveThreshold.length}, serendipity candidates: ${serendipityPool.length}, total sent to LLM: ${result.sentToLlm}`);
+    logger?.log('embedding_scoring', `Embedding scored: ${embeddingScores.length}, above threshold (${thresholds.llmThreshold}): ${selection.aboveThreshold}, serendipity candidates: ${serendipityPool.length}, total sent to LLM: ${result.sentToLlm}`);
   } else {
     // No embeddings available — fall back to sending all articles to LLM (old behavior)
     logger?.warn('embedding_scoring', 'No embeddings available — falling back to LLM-only scoring for all articles');
@@ -430,8 +337,10 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     result.llmInputTokens = usage.prompt_tokens;
     result.llmOutputTokens = usage.completion_tokens;
     result.llmApiCalls = usage.api_calls;
+    result.llmCacheHits = usage.cache_hits;
+    result.llmCacheMisses = usage.cache_misses;
 
-    logger?.log('scoring', `LLM scored ${scores.length} articles (${usage.total_tokens.toLocaleString()} tokens, ${usage.api_calls} API calls)`);
+    logger?.log('scoring', `LLM scored ${scores.length} articles (${usage.total_tokens.toLocaleString()} tokens, ${usage.api_calls} API calls, ${usage.cache_hits} cache hits)`);
 
     for (const score of scores) {
       await createUserArticleScoring(
@@ -449,65 +358,24 @@ export async function runRelevanceEngine(userId: string, provider: string, logge
     const llmScoredIds = new Set([...llmCandidates, ...serendipityPool].map(a => a.id));
     const unscoredByLlm = filtered.filter(a => !llmScoredIds.has(a.id));
     for (const article of unscoredByLlm) {
-      const articleEmb = articleEmbeddings.get(article.id);
-      if (!articleEmb) continue;
-
       // Use weight-adjusted blended embedding similarity as fallback relevance score
-      const weightedSims: number[] = [];
-      for (const interest of interests) {
-        if (interest.weight === 0) continue;
-        const interestEmb = interestEmbeddings.get(interest.id);
-        if (!interestEmb) continue;
-        const sim = cosineSimilarity(articleEmb, interestEmb);
-        weightedSims.push(sim * interest.weight);
-      }
-
-      weightedSims.sort((a, b) => b - a);
-      const primary = weightedSims[0] ?? 0;
-      const topN = weightedSims.slice(0, 3);
-      const secondary = topN.length > 0 ? topN.reduce((s, v) => s + v, 0) / topN.length : 0;
-      let blended = thresholds.blendedPrimaryWeight * primary + thresholds.blendedSecondaryWeight * secondary;
-
-      // Apply exclusion penalties
-      if (exclusionEmbeddings.size > 0) {
-        let penaltyMultiplier = 1.0;
-        for (const [, excEmb] of exclusionEmbeddings) {
-          const sim = cosineSimilarity(articleEmb, excEmb);
-          if (sim >= exclusionThreshold) {
-            const penaltyStrength = (sim - exclusionThreshold) / (1.0 - exclusionThreshold);
-            penaltyMultiplier = Math.min(penaltyMultiplier, 1.0 - (penaltyStrength * 0.8));
-          }
-        }
-        blended *= penaltyMultiplier;
-      }
-
-      // Apply source trust multiplier
-      const trustFactor = sourceTrustFactors.get(article.source_id) ?? 1.0;
-      blended *= trustFactor;
+      const blended = blendedScores.get(article.id);
+      if (blended === undefined) continue;
 
       await createUserArticleScoring(
         userId,
         article.id,
-        parseFloat(blended.toFixed(4)),
+        parseFloat(blended.score.toFixed(4)),
         'Embedding score (not sent to LLM)',
         false
       );
     }
   }
 
-  const digestResult = await generateDigestForUser(userId, provider, logger);
-  result.digestId = digestResult.digestId;
-  result.digestArticleCount = digestResult.articleCount;
-  result.scoredUnassignedCount = digestResult.scoredUnassignedCount;
-
   return result;
 }
 
-// Bonus digest defaults
-const DEFAULT_BONUS_MIN_SCORE = 0.15;
-const DEFAULT_BONUS_MAX_ARTICLES = 50;
-
-async function getBonusSettings(): Promise<{ enabled: boolean; minScore: number; maxArticles: number }> {
+export async function getBonusSettings(): Promise<BonusSettings> {
   const [enabled, minScore, maxArticles] = await Promise.all([
     getGlobalSetting('bonus_digest_enabled'),
     getGlobalSetting('bonus_min_score'),
@@ -515,12 +383,12 @@ async function getBonusSettings(): Promise<{ enabled: boolean; minScore: number;
   ]);
   return {
     enabled: enabled !== 'false', // default true
-    minScore: minScore ? parseFloat(minScore) : DEFAULT_BONUS_MIN_SCORE,
-    maxArticles: maxArticles ? parseInt(maxArticles, 10) : DEFAULT_BONUS_MAX_ARTICLES,
+    minScore: minScore ? parseFloat(minScore) : DEFAULT_BONUS_SETTINGS.minScore,
+    maxArticles: maxArticles ? parseInt(maxArticles, 10) : DEFAULT_BONUS_SETTINGS.maxArticles,
   };
 }
 
-async function generateDigestForUser(userId: string, provider: string, logger?: IngestionLogger): Promise<{ digestId: string | null; articleCount: number; scoredUnassignedCount: number }> {
+export async function generateDigestForUser(userId: string, provider: string, logger?: IngestionLogger): Promise<{ digestId: string | null; articleCount: number; scoredUnassignedCount: number }> {
   const scored = await getScoredUnassignedForUser(userId);
   if (scored.length === 0) {
     logger?.log('digest', 'No scored articles available for digest');
@@ -528,21 +396,8 @@ async function generateDigestForUser(userId: string, provider: string, logger?:
   }
 
   const minScore = config.minRelevanceScore;
-
-  // Recommended: above relevance threshold
-  const recommended = scored.filter(
-    a => (a.relevance_score || 0) >= minScore && !a.is_serendipity
-  );
-
-  // Serendipity: flagged as serendipity with decent score
-  const serendipityItems = scored.filter(
-    a => a.is_serendipity && (a.relevance_score || 0) >= 0.4
-  );
-
-  // Combine recommended + serendipity (cap serendipity at 2)
-  const selectedSerendipity = serendipityItems
-    .filter(s => !recommended.find(r => r.article_id === s.article_id))
-    .slice(0, 2);
+  const bonusSettings = await getBonusSettings();
+  const { recommended, serendipity: selectedSerendipity, bonus: bonusCandidates } = assignDigestTiers(scored, minScore, bonusSettings);
 
   const mainDigest = [...recommended, ...selectedSerendipity];
 
@@ -566,25 +421,9 @@ async function generateDigestForUser(userId: string, provider: string, logger?:
   }
 
   // Bonus articles: below threshold but above floor, not already in main digest
-  const bonusSettings = await getBonusSettings();
-  let bonusCount = 0;
-
-  if (bonusSettings.enabled) {
-    const mainArticleIds = new Set(mainDigest.map(a => a.article_id));
-    const bonusCandidates = scored
-      .filter(a => {
-        const score = a.relevance_score || 0;
-        return !mainArticleIds.has(a.article_id)
-          && score >= bonusSettings.minScore
-          && score < minScore;
-      })
-      .sort((a, b) => (b.relevance_score || 0) - (a.relevance_score || 0))
-      .slice(0, bonusSettings.maxArticles);
-
-    if (bonusCandidates.length > 0) {
-      await assignUserArticlesToDigest(userId, bonusCandidates.map(a => a.article_id), digest.id, 'bonus');
-      bonusCount = bonusCandidates.length;
-    }
+  const bonusCount = bonusCandidates.length;
+  if (bonusCount > 0) {
+    await assignUserArticlesToDigest(userId, bonusCandidates.map(a => a.article_id), digest.id, 'bonus');
   }
 
   const totalCount = mainDigest.length + bonusCount;
@@ -592,5 +431,7 @@ async function generateDigestForUser(userId: string, provider: string, logger?:
 
   logger?.log('digest', `Digest created: ${recommended.length} recommended, ${selectedSerendipity.length} serendipity, ${bonusCount} bonus`);
 
+  await deliverDigest(userId, digest.id, logger);
+
   return { digestId: digest.id, articleCount: mainDigest.length, scoredUnassignedCount: scored.length };
 }
@@ -1,4 +1,4 @@
-import type { Article } from '@/types';
+import type { Article, Source } from '@/types';
 
 const SPAM_DOMAINS = [
   'bit.ly', 't.co', 'tinyurl.com',
@@ -11,7 +11,7 @@ const NEW_USER_WINDOW_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
 export interface PrefilterRemoval {
   title: string;
   url: string;
-  reason: 'short_title' | 'spam_domain' | 'invalid_url' | 'title_dupe' | 'stale';
+  reason: 'short_title' | 'spam_domain' | 'invalid_url' | 'title_dupe' | 'stale' | 'below_points_floor' | 'story_dupe';
 }
 
 export interface PrefilterResult {
@@ -22,10 +22,23 @@ export interface PrefilterResult {
 export interface PrefilterOptions {
   /** When the user's account was created. Used to extend the stale window for new users. */
   userCreatedAt?: Date;
+  /** Per-source minimum points for aggregator sources (e.g. only HN items with 100+ points). */
+  minPointsBySource?: Map<string, number>;
+}
+
+/** Points floors configured on the user's aggregator sources (config.min_points). */
+export function aggregatorPointsFloors(sources: Pick<Source, 'id' | 'type' | 'config'>[]): Map<string, number> {
+  const floors = new Map<string, number>();
+  for (const source of sources) {
+    const minPoints = Number(source.config.min_points);
+    if (source.type === 'aggregator' && minPoints > 0) floors.set(source.id, minPoints);
+  }
+  return floors;
 }
 
 export function prefilterArticles(articles: Article[], options?: PrefilterOptions): PrefilterResult {
   const seen = new Set<string>();
+  const seenStories = new Set<string>();
   const kept: Article[] = [];
   const removed: PrefilterRemoval[] = [];
 
@@ -64,6 +77,13 @@ export function prefilterArticles(articles: Article[], options?: PrefilterOption
       continue;
     }
 
+    // Aggregator popularity floor. Items are re-checked on later runs as their points climb.
+    const minPoints = options?.minPointsBySource?.get(article.source_id);
+    if (minPoints !== undefined && (article.points ?? 0) < minPoints) {
+      removed.push({ title: article.title, url: article.url, reason: 'below_points_floor' });
+      continue;
+    }
+
     // Exact title dedup
     const titleKey = article.title.toLowerCase().trim();
     if (seen.has(titleKey)) {
@@ -72,6 +92,12 @@ export function prefilterArticles(articles: Article[], options?: PrefilterOption
     }
     seen.add(titleKey);
 
+    // One article per story cluster (the same story from several sources)
+    if (article.cluster_id && seenStories.has(article.cluster_id)) {
+      removed.push({ title: article.title, url: article.url, reason: 'story_dupe' });
+      continue;
+    }
+
     // Content freshness check
     if (article.published_at) {
       const publishedAt = new Date(article.published_at).getTime();
@@ -81,6 +107,7 @@ export function prefilterArticles(articles: Article[], options?: PrefilterOption
       }
     }
 
+    if (article.cluster_id) seenStories.add(article.cluster_id);
     kept.push(article);
   }
 
@@ -0,0 +1,119 @@
+/**
+ * Per-user digest scheduling. Each user picks local digest times (`digest_times`) and a
+ * timezone; the scheduler endpoint is hit frequently by cron and assembles a digest for
+ * every user whose most recent scheduled time has passed since their last digest run.
+ */
+
+import type { User } from '@/types';
+import { getAllActiveUsers } from '../db/users';
+import { getSchedule, getTimezone, getSetting, setSetting } from '../db/settings';
+import { getLatestDigest } from '../db/digests';
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function zonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/** Milliseconds the timezone is ahead of UTC at the given instant */
+function offsetMs(date: Date, timezone: string): number {
+  const p = zonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The UTC instant of a local wall-clock time, correct across DST changes */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  let utc = guess - offsetMs(new Date(guess), timezone);
+  // The offset at the guess can differ from the offset at the answer near a DST switch
+  const corrected = offsetMs(new Date(utc), timezone);
+  utc = guess - corrected;
+  return new Date(utc);
+}
+
+/** The most recent scheduled time at or before `now`, looking back over today and yesterday (local). */
+export function latestScheduledTime(times: string[], timezone: string, now: Date = new Date()): Date | null {
+  let latest: Date | null = null;
+  for (const dayRef of [now, new Date(now.getTime() - 24 * 60 * 60 * 1000)]) {
+    const { year, month, day } = zonedParts(dayRef, timezone);
+    for (const time of times) {
+      const [hour, minute] = time.split(':').map(n => parseInt(n, 10));
+      if (Number.isNaN(hour) || Number.isNaN(minute)) continue;
+      const slot = zonedTimeToUtc(year, month, day, hour, minute, timezone);
+      if (slot.getTime() <= now.getTime() && (!latest || slot > latest)) latest = slot;
+    }
+  }
+  return latest;
+}
+
+export function isDigestDue(times: string[], timezone: string, lastRunAt: Date | null, now: Date = new Date()): boolean {
+  const slot = latestScheduledTime(times, timezone, now);
+  if (!slot) return false;
+  return !lastRunAt || lastRunAt < slot;
+}
+
+/** Last time a digest was assembled (or attempted) for the user, whichever is later */
+async function getLastDigestRun(userId: string): Promise<Date | null> {
+  const [digest, lastRun] = await Promise.all([
+    getLatestDigest(userId),
+    getSetting(userId, 'digest_last_run_at'),
+  ]);
+  const candidates = [digest?.generated_at, lastRun]
+    .filter((v): v is string => !!v)
+    .map(v => new Date(v))
+    .filter(d => !Number.isNaN(d.getTime()));
+  if (candidates.length === 0) return null;
+  return new Date(Math.max(...candidates.map(d => d.getTime())));
+}
+
+/** Users (all active users unless a list is given) whose scheduled digest time has arrived */
+export async function getUsersDueForDigest(now: Date = new Date(), candidates?: User[]): Promise<User[]> {
+  const users = candidates ?? await getAllActiveUsers();
+  const due: User[] = [];
+  for (const user of users) {
+    const [times, timezone, lastRunAt] = await Promise.all([
+      getSchedule(user.id),
+      getTimezone(user.id),
+      getLastDigestRun(user.id),
+    ]);
+    if (isDigestDue(times, isValidTimezone(timezone) ? timezone : 'UTC', lastRunAt, now)) due.push(user);
+  }
+  return due;
+}
+
+/**
+ * Users whose scheduled time has arrived, marked as run. Recording the run up front means a user
+ * whose digest fails isn't retried on every tick until their next slot. Pass `candidates` to
+ * claim only among the users a run covers.
+ */
+export async function claimScheduledDigests(now: Date = new Date(), candidates?: User[]): Promise<User[]> {
+  const due = await getUsersDueForDigest(now, candidates);
+  for (const user of due) {
+    await setSetting(user.id, 'digest_last_run_at', now.toISOString());
+  }
+  return due;
+}
@@ -1,5 +1,5 @@
 import { config } from '../config';
-import { llmComplete } from '../llm';
+import { llmComplete, DEFAULT_LLM_CACHE_TTL_MS } from '../llm';
 import type { LlmUsage } from '../llm';
 import type { Article, Interest, LearnedPreference, ScoringResult } from '@/types';
 import type { IngestionLogger } from '../ingestion/logger';
@@ -9,6 +9,8 @@ export interface ScoringUsage {
   completion_tokens: number;
   total_tokens: number;
   api_calls: number;
+  cache_hits: number;
+  cache_misses: number;
 }
 
 function buildScoringPrompt(
@@ -147,17 +149,28 @@ function parseJsonResponse(text: string): { results: ScoringResult[]; method: st
   }
 }
 
+/** A reply worth caching: it parses as a whole, not only after salvaging a truncated array. */
+function isCompleteScoringResponse(text: string): boolean {
+  try {
+    const { results, method } = parseJsonResponse(text);
+    return method !== 'salvage' && Array.isArray(results);
+  } catch {
+    return false;
+  }
+}
+
 export async function scoreArticles(
   articles: Article[],
   interests: Interest[],
   preferences: LearnedPreference[],
   recentFeedback: string = '',
   logger?: IngestionLogger,
-  serendipityArticleIds?: string[]
+  serendipityArticleIds?: string[],
+  complete: typeof llmComplete = llmComplete
 ): Promise<{ results: ScoringResult[]; usage: ScoringUsage }> {
   const serendipitySet = serendipityArticleIds ? new Set(serendipityArticleIds) : undefined;
   const results: ScoringResult[] = [];
-  const usage: ScoringUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, api_calls: 0 };
+  const usage: ScoringUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, api_calls: 0, cache_hits: 0, cache_misses: 0 };
   const totalBatches = Math.ceil(articles.length / config.batchSize);
 
   for (let i = 0; i < articles.length; i += config.batchSize) {
@@ -168,7 +181,12 @@ export async function scoreArticles(
     logger?.log('scoring', `Batch ${batchNum}/${totalBatches}: ${batch.length} articles`);
 
     try {
-      const response = await llmComplete(prompt, 8192);
+      // Cached so re-scoring the same batch (e.g. after scores are cleared) doesn't pay twice;
+      // malformed or truncated replies aren't cached, so the next attempt asks again
+      const response = await complete(prompt, 8192, {
+        cacheTtlMs: DEFAULT_LLM_CACHE_TTL_MS,
+        validate: isCompleteScoringResponse,
+      });
 
       if (!response) {
         logger?.warn('scoring', `Batch ${batchNum}: API unavailable, using fallback scores`);
@@ -183,7 +201,13 @@ export async function scoreArticles(
         continue;
       }
 
-      usage.api_calls++;
+      if (response.cached) {
+        usage.cache_hits++;
+        logger?.log('scoring', `Batch ${batchNum}: cached response`);
+      } else {
+        usage.cache_misses++;
+        usage.api_calls++;
+      }
       if (response.usage) {
         usage.prompt_tokens += response.usage.prompt_tokens;
         usage.completion_tokens += response.usage.completion_tokens;
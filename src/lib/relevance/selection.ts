@@ -0,0 +1,258 @@
+/**
+ * Pure scoring and selection steps shared by the live pipeline and the offline evaluation
+ * harness (scripts/eval-scoring.ts): blending stage 1 similarities into an embedding score,
+ * picking LLM and serendipity candidates, and placing scored articles into digest tiers.
+ */
+
+import type { ArticleSimilarities } from '../embeddings';
+import type { Article, Exclusion, Interest, ScoreBreakdown } from '@/types';
+
+export interface EmbeddingThresholds {
+  llmThreshold: number;
+  serendipityMin: number;
+  serendipityMax: number;
+  serendipitySampleSize: number;
+  maxLlmCandidates: number;
+  blendedPrimaryWeight: number;
+  blendedSecondaryWeight: number;
+}
+
+// Default thresholds (overridden by global settings)
+export const DEFAULT_EMBEDDING_THRESHOLDS: EmbeddingThresholds = {
+  llmThreshold: 0.25,
+  serendipityMin: 0.12,
+  serendipityMax: 0.25,
+  serendipitySampleSize: 5,
+  maxLlmCandidates: 40,
+  blendedPrimaryWeight: 0.7,
+  blendedSecondaryWeight: 0.3,
+};
+export const DEFAULT_EXCLUSION_PENALTY_THRESHOLD = 0.40;
+// Interest matches per article that feed the blended score's secondary term
+export const BLEND_TOP_N = 3;
+
+export interface BonusSettings {
+  enabled: boolean;
+  minScore: number;
+  maxArticles: number;
+}
+
+export const DEFAULT_BONUS_SETTINGS: BonusSettings = { enabled: true, minScore: 0.15, maxArticles: 50 };
+
+export interface EmbeddingScoreContext {
+  interests: Pick<Interest, 'id' | 'category' | 'weight'>[];
+  exclusions: Pick<Exclusion, 'id' | 'category'>[];
+  thresholds: EmbeddingThresholds;
+  exclusionThreshold: number;
+  sourceTrustFactors: Map<string, number>;
+  /** Interests whose vectors include a learned feedback offset */
+  feedbackAdjusted: Set<string>;
+}
+
+const round = (n: number) => parseFloat(n.toFixed(4));
+
+/**
+ * Blended scoring for articles that have a vector: primary * best match + secondary * avg(top 3),
+ * then the exclusion penalty and source trust. The breakdown records how each score came about.
+ */
+export function computeEmbeddingScores(
+  articles: Pick<Article, 'id' | 'source_id'>[],
+  similarities: Map<string, ArticleSimilarities>,
+  ctx: EmbeddingScoreContext
+): Map<string, { score: number; breakdown: ScoreBreakdown }> {
+  const { thresholds, exclusionThreshold } = ctx;
+  const interestsById = new Map(ctx.interests.map(i => [i.id, i]));
+  const exclusionsById = new Map(ctx.exclusions.map(e => [e.id, e]));
+  const scores = new Map<string, { score: number; breakdown: ScoreBreakdown }>();
+
+  for (const article of articles) {
+    const sims = similarities.get(article.id);
+    const weightedSims = sims?.topInterests.map(m => m.weighted) ?? [];
+    const primary = weightedSims[0] ?? 0;
+    const secondary = weightedSims.length > 0 ? weightedSims.reduce((s, v) => s + v, 0) / weightedSims.length : 0;
+    let blended = thresholds.blendedPrimaryWeight * primary + thresholds.blendedSecondaryWeight * secondary;
+
+    // Apply exclusion penalty for the closest exclusion
+    const exclusionHits = (sims?.topExclusions ?? []).filter(x => x.similarity >= exclusionThreshold);
+    let penaltyMultiplier = 1.0;
+    if (exclusionHits.length > 0) {
+      const penaltyStrength = (exclusionHits[0].similarity - exclusionThreshold) / (1.0 - exclusionThreshold);
+      penaltyMultiplier = 1.0 - (penaltyStrength * 0.8);
+    }
+    blended *= penaltyMultiplier;
+
+    // Apply source trust multiplier
+    const trustFactor = ctx.sourceTrustFactors.get(article.source_id) ?? 1.0;
+    blended *= trustFactor;
+
+    scores.set(article.id, {
+      score: blended,
+      breakdown: {
+        interests: (sims?.topInterests ?? []).map(m => ({
+          interest_id: m.interestId,
+          category: interestsById.get(m.interestId)?.category ?? '',
+          similarity: round(m.similarity),
+          weight: interestsById.get(m.interestId)?.weight ?? 1,
+          feedback_adjusted: ctx.feedbackAdjusted.has(m.interestId),
+        })),
+        exclusions: exclusionHits.map(x => ({
+          exclusion_id: x.exclusionId,
+          category: exclusionsById.get(x.exclusionId)?.category ?? '',
+          similarity: round(x.similarity),
+        })),
+        exclusion_penalty: round(penaltyMultiplier),
+        source_trust: round(trustFactor),
+      },
+    });
+  }
+  return scores;
+}
+
+export interface CandidateSelection {
+  /** Articles at or above the LLM threshold, before the candidate cap */
+  aboveThreshold: number;
+  llmCandidates: Article[];
+  serendipityPool: Article[];
+}
+
+/**
+ * Pick the LLM candidates (above threshold, capped, plus `alwaysInclude`) and a weighted sample
+ * from the serendipity range, biased toward threshold proximity and interest/source diversity.
+ */
+export function selectLlmCandidates(
+  embeddingScores: { article: Article; score: number }[],
+  similarities: Map<string, ArticleSimilarities>,
+  thresholds: EmbeddingThresholds,
+  options: {
+    /** Sent to the LLM regardless of embedding score (saved links) */
+    alwaysInclude?: Article[];
+    /** Sources never sampled for serendipity */
+    serendipityExcludedSources?: Set<string>;
+    random?: () => number;
+  } = {}
+): CandidateSelection {
+  const random = options.random ?? Math.random;
+
+  // Select candidates above threshold
+  const aboveThreshold = embeddingScores
+    .filter(e => e.score >= thresholds.llmThreshold)
+    .sort((a, b) => b.score - a.score);
+
+  // Cap at max LLM candidates
+  const llmCandidates = aboveThreshold
+    .slice(0, thresholds.maxLlmCandidates)
+    .map(e => e.article);
+
+  const candidateIds = new Set(llmCandidates.map(a => a.id));
+  llmCandidates.push(...(options.alwaysInclude ?? []).filter(a => !candidateIds.has(a.id)));
+
+  // Serendipity pool: weighted sample biased toward threshold proximity and diversity
+  const serendipityEligible = embeddingScores.filter(
+    e => e.score >= thresholds.serendipityMin && e.score < thresholds.serendipityMax
+      && !options.serendipityExcludedSources?.has(e.article.source_id)
+  );
+
+  let serendipityPool: Article[] = [];
+  if (serendipityEligible.length > 0) {
+    // Count interest/source coverage in LLM candidates for diversity bias
+    const interestCoverage = new Map<string, number>();
+    const sourceCoverage = new Map<string, number>();
+    for (const candidate of llmCandidates) {
+      // Best matching interest for this candidate
+      const bestInterest = similarities.get(candidate.id)?.bestInterestId;
+      if (bestInterest) interestCoverage.set(bestInterest, (interestCoverage.get(bestInterest) || 0) + 1);
+      sourceCoverage.set(candidate.source_id, (sourceCoverage.get(candidate.source_id) || 0) + 1);
+    }
+
+    const range = thresholds.serendipityMax - thresholds.serendipityMin;
+
+    // Compute selection weights
+    const weighted = serendipityEligible.map(e => {
+      // A. Score proximity to threshold (quadratic bias)
+      const position = range > 0 ? (e.score - thresholds.serendipityMin) / range : 0;
+      const proximityWeight = position * position;
+
+      // B. Interest diversity
+      const bestInterest = similarities.get(e.article.id)?.bestInterestId ?? '';
+      const coverage = interestCoverage.get(bestInterest) || 0;
+      const diversityWeight = 1.0 / (1 + coverage);
+
+      // C. Source diversity
+      const sourceCount = sourceCoverage.get(e.article.source_id) || 0;
+      const sourceWeight = 1.0 / (1 + sourceCount);
+
+      const selectionWeight = (0.5 * proximityWeight) + (0.3 * diversityWeight) + (0.2 * sourceWeight);
+      return { ...e, selectionWeight };
+    });
+
+    // Weighted random sampling (roulette wheel)
+    const selected: typeof serendipityEligible = [];
+    const remaining = [...weighted];
+    const sampleSize = Math.min(thresholds.serendipitySampleSize, remaining.length);
+
+    for (let s = 0; s < sampleSize; s++) {
+      const totalWeight = remaining.reduce((sum, e) => sum + e.selectionWeight, 0);
+      if (totalWeight <= 0) break;
+      let r = random() * totalWeight;
+      let picked = remaining.length - 1;
+      for (let i = 0; i < remaining.length; i++) {
+        r -= remaining[i].selectionWeight;
+        if (r <= 0) { picked = i; break; }
+      }
+      selected.push(remaining[picked]);
+      remaining.splice(picked, 1);
+    }
+
+    serendipityPool = selected.map(e => e.article);
+  }
+
+  return { aboveThreshold: aboveThreshold.length, llmCandidates, serendipityPool };
+}
+
+export interface ScoredForDigest {
+  article_id: string;
+  relevance_score: number;
+  is_serendipity: boolean;
+}
+
+/**
+ * Split scored articles (highest score first) into digest tiers: recommended above `minScore`,
+ * up to two serendipity picks, and bonus articles between the bonus floor and `minScore`.
+ */
+export function assignDigestTiers<T extends ScoredForDigest>(
+  scored: T[],
+  minScore: number,
+  bonus: BonusSettings
+): { recommended: T[]; serendipity: T[]; bonus: T[] } {
+  // Recommended: above relevance threshold
+  const recommended = scored.filter(
+    a => (a.relevance_score || 0) >= minScore && !a.is_serendipity
+  );
+
+  // Serendipity: flagged as serendipity with decent score
+  const serendipityItems = scored.filter(
+    a => a.is_serendipity && (a.relevance_score || 0) >= 0.4
+  );
+
+  // Combine recommended + serendipity (cap serendipity at 2)
+  const selectedSerendipity = serendipityItems
+    .filter(s => !recommended.find(r => r.article_id === s.article_id))
+    .slice(0, 2);
+
+  // Bonus articles: below threshold but above floor, not already in main digest
+  let bonusArticles: T[] = [];
+  if (bonus.enabled) {
+    const mainArticleIds = new Set([...recommended, ...selectedSerendipity].map(a => a.article_id));
+    bonusArticles = scored
+      .filter(a => {
+        const score = a.relevance_score || 0;
+        return !mainArticleIds.has(a.article_id)
+          && score >= bonus.minScore
+          && score < minScore;
+      })
+      .sort((a, b) => (b.relevance_score || 0) - (a.relevance_score || 0))
+      .slice(0, bonus.maxArticles);
+  }
+
+  return { recommended, serendipity: selectedSerendipity, bonus: bonusArticles };
+}
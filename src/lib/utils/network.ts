@@ -0,0 +1,82 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+/** A user-supplied URL that points at this server's own network. Not worth retrying. */
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const [a, b, c] = ip.split('.').map(n => parseInt(n, 10));
+  return a === 0                                // "this" network
+    || a === 10                                 // private
+    || a === 127                                // loopback
+    || (a === 100 && b >= 64 && b <= 127)       // carrier-grade NAT
+    || (a === 169 && b === 254)                 // link-local, cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)        // private
+    || (a === 192 && b === 0 && c === 0)        // IETF protocol assignments
+    || (a === 192 && b === 168)                 // private
+    || (a === 198 && (b === 18 || b === 19))    // benchmarking
+    || a >= 224;                                // multicast, reserved, broadcast
+}
+
+/** The eight 16-bit groups of an IPv6 address, with any embedded dotted IPv4 tail converted. */
+function ipv6Groups(ip: string): number[] {
+  let address = ip.split('%')[0];
+  const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[1].split('.').map(n => parseInt(n, 10));
+    address = address.slice(0, -dotted[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = address.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(g => parseInt(g, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const fill = tail !== undefined ? new Array(8 - headGroups.length - tailGroups.length).fill(0) : [];
+  return [...headGroups, ...fill, ...tailGroups];
+}
+
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) return isPrivateIPv4(ip);
+  if (version !== 6) return true;
+
+  const groups = ipv6Groups(ip);
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (groups.slice(0, 5).every(g => g === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    const v4 = `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+    if (groups[5] === 0xffff || groups[6] !== 0) return isPrivateIPv4(v4);
+    return true; // :: and ::1
+  }
+  return (groups[0] & 0xfe00) === 0xfc00      // unique local
+    || (groups[0] & 0xffc0) === 0xfe80        // link-local
+    || (groups[0] & 0xff00) === 0xff00;       // multicast
+}
+
+/**
+ * Check a user-supplied URL before the server requests it: http(s) only, and every address the
+ * host resolves to must be public. Throws UnsafeUrlError for a URL that must never be fetched;
+ * a failed DNS lookup is thrown as-is, since it may be temporary.
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError(`Not a valid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Only http and https URLs are allowed (got ${parsed.protocol})`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find(a => isPrivateAddress(a.address));
+  if (blocked) {
+    throw new UnsafeUrlError(`${parsed.hostname} resolves to a private or local address (${blocked.address})`);
+  }
+  return parsed;
+}
@@ -9,3 +9,12 @@ export function timeAgo(dateStr: string | Date | null): string {
   const days = Math.floor(hours / 24);
   return `${days}d ago`;
 }
+
+export function formatDuration(seconds: number | null | undefined): string {
+  if (!seconds || seconds <= 0) return '';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (h > 0) return m > 0 ? `${h}h ${m}m` : `${h}h`;
+  if (m > 0) return `${m} min`;
+  return `${seconds}s`;
+}
@@ -1,5 +1,11 @@
 // Source types
-export type SourceType = 'rss' | 'manual_url';
+export type SourceType = 'rss' | 'json_feed' | 'aggregator' | 'manual_url';
+
+// Link aggregators supported by the 'aggregator' source type
+export type AggregatorSite = 'hackernews' | 'lobsters';
+
+// Media attached to a feed item (podcast enclosure, video)
+export type MediaType = 'audio' | 'video';
 
 // Sentiment values
 export type Sentiment = 'liked' | 'skipped';
@@ -15,6 +21,8 @@ export interface User {
   is_admin: boolean;
   display_name: string | null;
   is_active: boolean;
+  /** Secret for the read-only digest feed at /api/feeds/{token}.xml */
+  feed_token: string | null;
   created_at: string;
 }
 
@@ -36,6 +44,9 @@ export interface Source {
   last_new_article_at?: string | null;
   consecutive_errors?: number;
   articles_14d?: number;
+  etag?: string | null;
+  last_modified?: string | null;
+  next_fetch_at?: string | null;
 }
 
 // Ingested Article (shared content only — no per-user scoring/engagement)
@@ -50,6 +61,16 @@ export interface Article {
   provider: string;
   published_at: string | null;
   ingested_at: string;
+  author?: string | null;
+  media_type?: MediaType | null;
+  media_url?: string | null;
+  duration_seconds?: number | null;
+  thumbnail_url?: string | null;
+  points?: number | null;
+  comment_count?: number | null;
+  comments_url?: string | null;
+  canonical_url?: string | null;
+  cluster_id?: string | null;
 }
 
 // Digest tier classification
@@ -65,6 +86,8 @@ export interface UserArticle {
   relevance_score: number | null;
   relevance_reason: string | null;
   embedding_score: number | null;
+  /** How the embedding stage arrived at embedding_score */
+  score_breakdown: ScoreBreakdown | null;
   is_serendipity: boolean;
   sentiment: Sentiment | null;
   is_read: boolean;
@@ -74,6 +97,30 @@ export interface UserArticle {
   scored_at: string | null;
 }
 
+// Embedding-stage explanation stored per user_articles row
+export interface ScoreBreakdown {
+  /** Best interest matches, highest weighted similarity first */
+  interests: { interest_id: string; category: string; similarity: number; weight: number; feedback_adjusted?: boolean }[];
+  /** Exclusions similar enough to trigger the penalty */
+  exclusions: { exclusion_id: string; category: string; similarity: number }[];
+  /** Score multiplier from the closest exclusion (1 = no penalty) */
+  exclusion_penalty: number;
+  /** Score multiplier from per-source feedback history (1 = neutral) */
+  source_trust: number;
+}
+
+// Learned offset for an interest vector (Rocchio relevance feedback)
+export interface InterestFeedbackVector {
+  interest_id: string;
+  user_id: string;
+  /** Embedding model the offset was learned in; ignored once another model is active */
+  model: string;
+  offset_json: number[];
+  liked_count: number;
+  skipped_count: number;
+  updated_at: string;
+}
+
 // Embedding (article, interest, or exclusion vector)
 export interface Embedding {
   id: string;
@@ -129,6 +176,24 @@ export interface UserArticleWithSource extends UserArticle {
   source_id: string;
   source_name: string;
   source_type: SourceType;
+  media_type: MediaType | null;
+  media_url: string | null;
+  duration_seconds: number | null;
+  thumbnail_url: string | null;
+  points: number | null;
+  comment_count: number | null;
+  comments_url: string | null;
+  cluster_id: string | null;
+  /** Other articles in the same story cluster, from sources this user reads */
+  also_covered_by?: StoryAlternate[];
+}
+
+// Another source's article about the same story
+export interface StoryAlternate {
+  article_id: string;
+  title: string;
+  url: string;
+  source_name: string;
 }
 
 // Article engagement state returned by the feedback API
@@ -220,6 +285,56 @@ export interface IngestionLog {
   error: string | null;
 }
 
+// Pipeline run (doubles as the lock that keeps runs from overlapping)
+export type IngestionRunTrigger = 'cron' | 'manual' | 'scheduler';
+
+export interface IngestionRun {
+  id: string;
+  trigger: IngestionRunTrigger;
+  triggered_by: string | null;
+  log_id: string | null;
+  status: 'running' | 'success' | 'error' | 'timed_out';
+  provider: string | null;
+  options: { force?: boolean };
+  started_at: string;
+  heartbeat_at: string;
+  finished_at: string | null;
+  error: string | null;
+}
+
+// Pipeline stages, in the order a run works through them
+export type PipelineStage = 'fetch' | 'embed' | 'score' | 'digest' | 'weekly' | 'cleanup';
+
+// One unit of work in a run's queue (global when user_id is null)
+export interface PipelineJob {
+  id: string;
+  run_id: string;
+  stage: PipelineStage;
+  stage_order: number;
+  user_id: string | null;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  attempts: number;
+  /** Checkpoint carried between slices (e.g. sources still to fetch) */
+  state: Record<string, unknown>;
+  /** Counters accumulated across slices, rolled up into the run summary */
+  result: Record<string, unknown>;
+  error: string | null;
+  lease_until: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// Per-stage job counts for a run
+export interface PipelineProgress {
+  total: number;
+  done: number;
+  failed: number;
+  running: number;
+  pending: number;
+  stages: Partial<Record<PipelineStage, { total: number; done: number; failed: number }>>;
+}
+
 // Raw article before storage
 export interface RawArticle {
   title: string;
@@ -228,6 +343,15 @@ export interface RawArticle {
   external_id: string;
   published_at: string | null;
   source_id: string;
+  author?: string | null;
+  media_type?: MediaType | null;
+  media_url?: string | null;
+  duration_seconds?: number | null;
+  thumbnail_url?: string | null;
+  points?: number | null;
+  comment_count?: number | null;
+  comments_url?: string | null;
+  canonical_url?: string | null;
 }
 
 // Invite code
@@ -247,3 +371,41 @@ export interface UserSourceSetting {
   source_id: string;
   enabled: boolean;
 }
+
+// Digest delivery channels (per-user, stored in settings as JSON)
+export type DeliveryChannel = 'webhook' | 'email';
+
+export interface DeliveryChannels {
+  webhook: { enabled: boolean; url: string; secret: string } | null;
+  email: { enabled: boolean; address: string } | null;
+}
+
+// One digest push attempt log entry
+export interface DigestDelivery {
+  id: string;
+  user_id: string;
+  digest_id: string;
+  channel: DeliveryChannel;
+  target: string;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  response_status: number | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// Personal access token scopes for the Bearer-authenticated API
+export type ApiTokenScope = 'digests:read' | 'feedback:write' | 'sources:manage';
+
+// Personal access token (the secret itself is only shown once, at creation)
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  created_at: string;
+  last_used_at: string | null;
+}